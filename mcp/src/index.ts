@@ -62,6 +62,7 @@ import {
   parseEther,
   parseUnits,
   encodeFunctionData,
+  parseEventLogs,
   type Address,
   type Hash,
   type Hex,
@@ -205,6 +206,15 @@ const IDENTITY_REGISTRY_ABI = [
     outputs: [{ type: 'string' }],
     stateMutability: 'view',
   },
+  {
+    type: 'event',
+    name: 'AgentRegistered',
+    inputs: [
+      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'owner', type: 'address', indexed: true },
+      { name: 'agentURI', type: 'string', indexed: false },
+    ],
+  },
 ] as const;
 
 const ROUTER_ABI = [
@@ -1503,16 +1513,17 @@ async function registerAgent(agentURI: string): Promise<string> {
 
   const receipt = await publicClient.waitForTransactionReceipt({ hash });
 
-  const totalAgents = await publicClient.readContract({
-    address: FUJI_CONTRACTS.identityRegistry,
+  // Read the ID from the event; totalAgents() races with other registrations
+  const [registered] = parseEventLogs({
     abi: IDENTITY_REGISTRY_ABI,
-    functionName: 'totalAgents',
+    eventName: 'AgentRegistered',
+    logs: receipt.logs,
   });
 
   return JSON.stringify({
     success: receipt.status === 'success',
     hash,
-    agentId: totalAgents.toString(),
+    agentId: registered ? registered.args.agentId.toString() : null,
     owner: account.address,
     agentURI,
   });
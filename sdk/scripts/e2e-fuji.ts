@@ -3,13 +3,14 @@
  * Tests the complete flow: register → feedback → reputation → validation
  */
 
-import { createPublicClient, createWalletClient, http, keccak256, toHex, encodePacked } from 'viem';
+import { createPublicClient, createWalletClient, http, toHex } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { avalancheFuji } from 'viem/chains';
 import {
   AgentSDK,
   createFujiConfig,
   ResponseCode,
+  type EventTransactionResult,
 } from '../src/index';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -48,14 +49,10 @@ function info(message: string): void {
   console.log(`  → ${message}`);
 }
 
-async function waitForTx(publicClient: ReturnType<typeof createPublicClient>, hash: `0x${string}`): Promise<void> {
-  info(`Waiting for tx: ${hash}`);
-  const receipt = await publicClient.waitForTransactionReceipt({ hash });
-  if (receipt.status === 'success') {
-    success(`Confirmed in block ${receipt.blockNumber}`);
-  } else {
-    throw new Error(`Transaction reverted: ${hash}`);
-  }
+async function waitForTx(tx: EventTransactionResult<unknown>): Promise<void> {
+  info(`Waiting for tx: ${tx.hash}`);
+  const receipt = await tx.wait();
+  success(`Confirmed in block ${receipt.blockNumber}`);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -108,11 +105,11 @@ async function main(): Promise<void> {
   const agentURI = `ipfs://QmTestAgent${timestamp}`;
 
   const registerTx = await sdk.identity.register({ agentURI });
-  await waitForTx(publicClient, registerTx);
+  info(`Waiting for tx: ${registerTx.hash}`);
 
-  // Get the new agent ID by checking total agents
-  const totalAgents = await sdk.identity.totalAgents();
-  const newAgentId = totalAgents;
+  // The agent ID comes from the AgentRegistered event in the receipt
+  const { agentId: newAgentId, blockNumber } = await registerTx.wait();
+  success(`Confirmed in block ${blockNumber}`);
   success(`Registered Agent #${newAgentId} with URI: ${agentURI}`);
 
   // Verify agent exists
@@ -133,7 +130,7 @@ async function main(): Promise<void> {
     'model',
     toHex('test-model-v1')
   );
-  await waitForTx(publicClient, metadataTx);
+  await waitForTx(metadataTx);
   success('Set metadata: model = test-model-v1');
 
   // Read back metadata
@@ -154,7 +151,7 @@ async function main(): Promise<void> {
     tag2: 'fast',
     endpoint: '/api/chat',
   });
-  await waitForTx(publicClient, feedback1Tx);
+  await waitForTx(feedback1Tx);
   success('Gave positive feedback: 85 (quality, fast)');
 
   // Another feedback
@@ -166,7 +163,7 @@ async function main(): Promise<void> {
     tag2: 'accurate',
     endpoint: '/api/analyze',
   });
-  await waitForTx(publicClient, feedback2Tx);
+  await waitForTx(feedback2Tx);
   success('Gave positive feedback: 92 (quality, accurate)');
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -197,15 +194,14 @@ async function main(): Promise<void> {
 
   // Use own address as validator for testing
   const validatorAddress = account.address;
-  const requestHash = keccak256(encodePacked(['uint256', 'uint256'], [newAgentId, BigInt(timestamp)]));
-
-  const validationReqTx = await sdk.validation.validationRequest({
-    validator: validatorAddress,
+  const { requestHash, params: validationParams } = await sdk.validation.buildValidationRequest({
     agentId: newAgentId,
-    requestURI: 'ipfs://QmValidationRequest',
-    requestHash,
+    validator: validatorAddress,
+    payload: { task: 'e2e-check', agentURI },
   });
-  await waitForTx(publicClient, validationReqTx);
+
+  const validationReqTx = await sdk.validation.validationRequest(validationParams);
+  await waitForTx(validationReqTx);
   success(`Created validation request: ${requestHash}`);
 
   // Check validation status
@@ -223,7 +219,7 @@ async function main(): Promise<void> {
     responseURI: 'ipfs://QmValidationResponse',
     tag: 'security',
   });
-  await waitForTx(publicClient, validationRespTx);
+  await waitForTx(validationRespTx);
   success('Responded with APPROVED (1)');
 
   // Check updated status
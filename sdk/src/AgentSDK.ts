@@ -1,10 +1,40 @@
-import type { PublicClient, WalletClient } from 'viem';
+import type { Hex, PublicClient, WalletClient } from 'viem';
+import { hexToBytes } from 'viem';
 
-import type { ChainConfig, SDKConfig } from './types';
+import type {
+  AgentProfile,
+  AgentProfileOptions,
+  ChainConfig,
+  FeedbackEntry,
+  LogQueryOptions,
+  MetadataValue,
+  ProfileField,
+  RegistrationFile,
+  ResolvedDocument,
+  SDKConfig,
+  Summary,
+  UriResolver,
+} from './types';
+import { ContractRevertError, toAgentSDKError } from './errors';
 import { IdentityRegistryClient } from './contracts/identity';
 import { ReputationRegistryClient } from './contracts/reputation';
 import { ValidationRegistryClient } from './contracts/validation';
 import { CrossChainVerifierClient } from './contracts/crosschain';
+import { WarpVerifierClient } from './contracts/warp';
+import { ProofEmitterClient } from './contracts/emitter';
+import { RegistryResponderClient } from './contracts/responder';
+import type { AgentIndexerConfig } from './indexer/indexer';
+import { AgentIndexer } from './indexer/indexer';
+import { AgentEventWatcher } from './watch/watcher';
+import type { ValidatorWorkerConfig } from './validator/worker';
+import { ValidatorWorker } from './validator/worker';
+import type { ReputationScore } from './reputation/scorer';
+import { ReputationScorer } from './reputation/scorer';
+import { DefaultUriResolver } from './utils/uri';
+import {
+  parseRegistrationFile,
+  validateRegistrationMatch,
+} from './utils/registration';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // MAIN SDK CLASS
@@ -34,7 +64,8 @@ import { CrossChainVerifierClient } from './contracts/crosschain';
  * }, publicClient, walletClient);
  *
  * // Register an agent
- * const txHash = await sdk.identity.register({ agentURI: 'ipfs://...' });
+ * const tx = await sdk.identity.register({ agentURI: 'ipfs://...' });
+ * const { agentId } = await tx.wait();
  * ```
  */
 export class AgentSDK {
@@ -63,6 +94,31 @@ export class AgentSDK {
    */
   public readonly crosschain: CrossChainVerifierClient | null;
 
+  /**
+   * Registry responder client for home-chain administration (if configured)
+   */
+  public readonly responder: RegistryResponderClient | null;
+
+  /**
+   * Warp verifier client for cached remote proofs (if configured)
+   */
+  public readonly warp: WarpVerifierClient | null;
+
+  /**
+   * Proof emitter client for sending Warp proofs (if configured)
+   */
+  public readonly proofEmitter: ProofEmitterClient | null;
+
+  /**
+   * Live subscriptions to identity, reputation and validation events
+   */
+  public readonly watch: AgentEventWatcher;
+
+  /**
+   * Resolver for agent, feedback and validation URIs, shared by the clients
+   */
+  public readonly uriResolver: UriResolver;
+
   /**
    * Public client for read operations
    */
@@ -89,33 +145,75 @@ export class AgentSDK {
     this.publicClient = publicClient;
     this.walletClient = walletClient;
 
+    this.uriResolver = config.uriResolver ?? new DefaultUriResolver();
+
     const { contracts } = config.chain;
+    const options = {
+      simulateWrites: config.simulateWrites,
+      uriResolver: this.uriResolver,
+    };
 
     // Initialize registry clients
     this.identity = new IdentityRegistryClient(
       contracts.identityRegistry,
       publicClient,
-      walletClient
+      walletClient,
+      options
     );
 
     this.reputation = new ReputationRegistryClient(
       contracts.reputationRegistry,
       publicClient,
-      walletClient
+      walletClient,
+      options
     );
 
     this.validation = new ValidationRegistryClient(
       contracts.validationRegistry,
       publicClient,
-      walletClient
+      walletClient,
+      options
     );
 
+    this.watch = new AgentEventWatcher(publicClient, contracts);
+
     // Initialize cross-chain client if verifier is configured
     this.crosschain = contracts.crossChainVerifier
       ? new CrossChainVerifierClient(
           contracts.crossChainVerifier,
           publicClient,
-          walletClient
+          walletClient,
+          options
+        )
+      : null;
+
+    // Initialize registry responder client if configured
+    this.responder = contracts.registryResponder
+      ? new RegistryResponderClient(
+          contracts.registryResponder,
+          publicClient,
+          walletClient,
+          options
+        )
+      : null;
+
+    // Initialize Warp verifier client if configured
+    this.warp = contracts.warpVerifier
+      ? new WarpVerifierClient(
+          contracts.warpVerifier,
+          publicClient,
+          walletClient,
+          options
+        )
+      : null;
+
+    // Initialize proof emitter client if configured
+    this.proofEmitter = contracts.proofEmitter
+      ? new ProofEmitterClient(
+          contracts.proofEmitter,
+          publicClient,
+          walletClient,
+          options
         )
       : null;
   }
@@ -141,12 +239,233 @@ export class AgentSDK {
     return this.crosschain !== null;
   }
 
+  /**
+   * Check if Warp proof verification is available
+   */
+  get hasWarp(): boolean {
+    return this.warp !== null;
+  }
+
   /**
    * Check if wallet is connected for write operations
    */
   get hasWallet(): boolean {
     return this.walletClient !== undefined;
   }
+
+  /**
+   * Load everything the registries know about an agent in one call
+   *
+   * Sections are loaded independently; one that fails is returned as a
+   * failure with its error rather than an empty value.
+   *
+   * @example
+   * ```typescript
+   * const profile = await sdk.getAgentProfile(42n, {
+   *   metadataKeys: ['model'],
+   *   includeRegistration: true,
+   * });
+   *
+   * if (profile.reputation.status === 'success') {
+   *   console.log(profile.reputation.result.count);
+   * }
+   * ```
+   */
+  async getAgentProfile(
+    agentId: bigint,
+    options: AgentProfileOptions = {}
+  ): Promise<AgentProfile> {
+    const metadataKeys = options.metadataKeys ?? [];
+
+    const [
+      exists,
+      owner,
+      agentURI,
+      wallet,
+      endpoint,
+      metadata,
+      reputation,
+      validation,
+      validationHashes,
+    ] = await Promise.all([
+      settle(this.identity.agentExists(agentId)),
+      settle(this.identity.ownerOf(agentId)),
+      settle(this.identity.tokenURI(agentId)),
+      settle(this.identity.getAgentWallet(agentId)),
+      settle(this.identity.getEndpoint(agentId)),
+      Promise.all(
+        metadataKeys.map((key) =>
+          settle(this.identity.getMetadata(agentId, key).then(toMetadataValue))
+        )
+      ),
+      settle(this.getReputationSummary(agentId, options)),
+      settle(this.validation.getSummary(agentId, options.validators)),
+      settle(this.validation.getAgentValidations(agentId)),
+    ]);
+
+    // A failed check is reported, not taken to mean the agent is missing
+    if (exists.status === 'success' && !exists.result) {
+      const missing: ProfileField<never> = {
+        status: 'failure',
+        error: new ContractRevertError('AgentNotFound', { agentId }),
+      };
+      return {
+        agentId,
+        exists,
+        owner: missing,
+        agentURI: missing,
+        wallet: missing,
+        endpoint: missing,
+        metadata: Object.fromEntries(metadataKeys.map((key) => [key, missing])),
+        reputation: missing,
+        validation: missing,
+        validationHashes: missing,
+        ...(options.resolveDocuments ? { agentDocument: missing } : {}),
+        ...(options.includeRegistration ? { registration: missing } : {}),
+      };
+    }
+
+    let agentDocument: ProfileField<ResolvedDocument> | undefined;
+    if (options.resolveDocuments) {
+      agentDocument =
+        agentURI.status === 'success'
+          ? await settle(this.uriResolver.resolve(agentURI.result))
+          : agentURI;
+    }
+
+    let registration: ProfileField<RegistrationFile> | undefined;
+    if (options.includeRegistration) {
+      registration =
+        agentURI.status === 'success'
+          ? await settle(this.resolveRegistration(agentId, agentURI.result))
+          : agentURI;
+    }
+
+    return {
+      agentId,
+      exists,
+      owner,
+      agentURI,
+      wallet,
+      endpoint,
+      metadata: Object.fromEntries(
+        metadataKeys.map((key, i) => [key, metadata[i]])
+      ),
+      reputation,
+      validation,
+      validationHashes,
+      ...(agentDocument ? { agentDocument } : {}),
+      ...(registration ? { registration } : {}),
+    };
+  }
+
+  /**
+   * Fetch an agent's registration file and check it points back to the agent
+   *
+   * Fields outside the schema are kept, since registration files are often
+   * extended.
+   *
+   * @throws RegistrationFileError if the file is invalid or names another
+   * agent
+   */
+  async getRegistrationFile(agentId: bigint): Promise<RegistrationFile> {
+    const agentURI = await this.identity.tokenURI(agentId);
+    return this.resolveRegistration(agentId, agentURI);
+  }
+
+  private async resolveRegistration(
+    agentId: bigint,
+    agentURI: string
+  ): Promise<RegistrationFile> {
+    const { json } = await this.uriResolver.resolve(agentURI);
+    const file = parseRegistrationFile(json, { allowUnknownFields: true });
+    validateRegistrationMatch(file, {
+      chainId: this.chainId,
+      identityRegistry: this.chain.contracts.identityRegistry,
+      agentId,
+    });
+    return file;
+  }
+
+  private async getReputationSummary(
+    agentId: bigint,
+    options: AgentProfileOptions
+  ): Promise<Summary> {
+    const clients =
+      options.reputationClients ??
+      (await this.reputation.getClients(agentId, options));
+    return this.reputation.getSummary(agentId, clients);
+  }
+
+  /**
+   * Create an event indexer over this chain's configured contracts
+   */
+  createIndexer(config: Omit<AgentIndexerConfig, 'contracts'>): AgentIndexer {
+    return new AgentIndexer(this.publicClient, {
+      ...config,
+      contracts: this.chain.contracts,
+    });
+  }
+
+  /**
+   * Create a worker that answers validation requests with this SDK's wallet
+   */
+  createValidatorWorker(config: ValidatorWorkerConfig): ValidatorWorker {
+    return new ValidatorWorker(this.validation, this.watch, config);
+  }
+
+  /**
+   * Score an agent from all of its feedback, revoked entries included, so
+   * the scorer's strategies decide what counts
+   *
+   * Feedback is found through logs like `reputation.listFeedback`; public
+   * RPCs usually require `fromBlock`.
+   *
+   * @throws AgentSDKError if any entry fails to read, rather than scoring
+   * part of the feedback
+   */
+  async scoreReputation(
+    agentId: bigint,
+    scorer: ReputationScorer = new ReputationScorer(),
+    options: LogQueryOptions = {}
+  ): Promise<ReputationScore> {
+    const feedback: FeedbackEntry[] = [];
+    let offset: number | null = 0;
+    while (offset !== null) {
+      const page = await this.reputation.listFeedback(agentId, {
+        ...options,
+        includeRevoked: true,
+        offset,
+      });
+      if (page.failures.length > 0) {
+        throw page.failures[0].error;
+      }
+      feedback.push(...page.items);
+      offset = page.nextOffset;
+    }
+    return scorer.score(feedback);
+  }
+}
+
+/**
+ * Await a profile section, capturing a failure as its result
+ */
+async function settle<T>(promise: Promise<T>): Promise<ProfileField<T>> {
+  try {
+    return { status: 'success', result: await promise };
+  } catch (error) {
+    return { status: 'failure', error: toAgentSDKError(error) };
+  }
+}
+
+function toMetadataValue(raw: Hex): MetadataValue {
+  let text: string | null;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(hexToBytes(raw));
+  } catch {
+    text = null;
+  }
+  return { raw, text };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -1,14 +1,44 @@
 import type {
   Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
   Hash,
   PublicClient,
   WalletClient,
 } from 'viem';
+import { decodeAbiParameters, isAddressEqual, parseEventLogs } from 'viem';
 import type {
   AgentVerification,
+  ContractEventLog,
+  EventTransactionResult,
+  LogQueryOptions,
   QueryReputationParams,
+  QueryReputationResult,
+  RegistryConfiguredEvent,
+  ReputationQueriedEvent,
+  ReputationQueryResult,
+  ReputationReceivedEvent,
+  TransactionResult,
+  VerificationReceivedEvent,
+  VerificationRequestedEvent,
   VerifyAgentParams,
+  VerifyAgentResult,
+  RegistryClientOptions,
+  WaitForResponseOptions,
 } from '../types';
+import {
+  CrossChainTimeoutError,
+  EventNotFoundError,
+  withContractErrors,
+} from '../errors';
+import { getContractEventLogs, waitForContractEvent } from '../utils/logs';
+import type { SendCrossChainMessageEvent } from '../utils/teleporter';
+import { TeleporterMessengerABI } from '../utils/teleporter';
+import {
+  ContractWriter,
+  createTransactionResult,
+  getEventArgs,
+} from '../utils/transaction';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // ABI
@@ -103,6 +133,31 @@ export const CrossChainAgentVerifierABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  // Errors
+  {
+    type: 'error',
+    name: 'UnknownChain',
+    inputs: [{ name: 'chainId', type: 'bytes32' }],
+  },
+  { type: 'error', name: 'OnlyTeleporter', inputs: [] },
+  {
+    type: 'error',
+    name: 'UnknownRegistry',
+    inputs: [
+      { name: 'chainId', type: 'bytes32' },
+      { name: 'sender', type: 'address' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'RequestNotFound',
+    inputs: [{ name: 'requestId', type: 'bytes32' }],
+  },
+  {
+    type: 'error',
+    name: 'OwnableUnauthorizedAccount',
+    inputs: [{ name: 'account', type: 'address' }],
+  },
   // Events
   {
     type: 'event',
@@ -110,7 +165,7 @@ export const CrossChainAgentVerifierABI = [
     inputs: [
       { name: 'requestId', type: 'bytes32', indexed: true },
       { name: 'sourceChain', type: 'bytes32', indexed: true },
-      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'agentId', type: 'uint256', indexed: false },
       { name: 'requester', type: 'address', indexed: false },
     ],
   },
@@ -129,7 +184,7 @@ export const CrossChainAgentVerifierABI = [
     inputs: [
       { name: 'requestId', type: 'bytes32', indexed: true },
       { name: 'sourceChain', type: 'bytes32', indexed: true },
-      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'agentId', type: 'uint256', indexed: false },
     ],
   },
   {
@@ -151,6 +206,34 @@ export const CrossChainAgentVerifierABI = [
   },
 ] as const;
 
+type VerifierWriteName = ContractFunctionName<
+  typeof CrossChainAgentVerifierABI,
+  'nonpayable'
+>;
+
+type VerifierWriteArgs<TName extends VerifierWriteName> = ContractFunctionArgs<
+  typeof CrossChainAgentVerifierABI,
+  'nonpayable',
+  TName
+>;
+
+/**
+ * Default wait for a Teleporter round trip, in milliseconds
+ */
+const DEFAULT_RESPONSE_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Layout of the MSG_QUERY_REPUTATION message sent to the remote registry
+ */
+const ReputationQueryMessage = [
+  { name: 'msgType', type: 'uint8' },
+  { name: 'requestId', type: 'bytes32' },
+  { name: 'agentId', type: 'uint256' },
+  { name: 'clients', type: 'address[]' },
+  { name: 'tag1', type: 'string' },
+  { name: 'tag2', type: 'string' },
+] as const;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CLIENT
 // ═══════════════════════════════════════════════════════════════════════════
@@ -161,16 +244,22 @@ export const CrossChainAgentVerifierABI = [
 export class CrossChainVerifierClient {
   private readonly address: Address;
   private readonly publicClient: PublicClient;
-  private readonly walletClient?: WalletClient;
+  private readonly writer: ContractWriter<typeof CrossChainAgentVerifierABI>;
 
   constructor(
     address: Address,
     publicClient: PublicClient,
-    walletClient?: WalletClient
+    walletClient?: WalletClient,
+    options: RegistryClientOptions = {}
   ) {
     this.address = address;
     this.publicClient = publicClient;
-    this.walletClient = walletClient;
+    this.writer = new ContractWriter(
+      publicClient,
+      walletClient,
+      { address, abi: CrossChainAgentVerifierABI },
+      options.simulateWrites
+    );
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -181,36 +270,42 @@ export class CrossChainVerifierClient {
    * Get the configured registry address for a chain
    */
   async getRemoteRegistry(chainId: Hash): Promise<Address> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: CrossChainAgentVerifierABI,
-      functionName: 'remoteRegistries',
-      args: [chainId],
-    }) as Promise<Address>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: CrossChainAgentVerifierABI,
+        functionName: 'remoteRegistries',
+        args: [chainId],
+      })
+    ) as Promise<Address>;
   }
 
   /**
    * Check if a verification request is pending
    */
   async isRequestPending(requestId: Hash): Promise<boolean> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: CrossChainAgentVerifierABI,
-      functionName: 'isRequestPending',
-      args: [requestId],
-    }) as Promise<boolean>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: CrossChainAgentVerifierABI,
+        functionName: 'isRequestPending',
+        args: [requestId],
+      })
+    ) as Promise<boolean>;
   }
 
   /**
    * Get the verification result for a completed request
    */
   async getVerificationResult(requestId: Hash): Promise<AgentVerification> {
-    const result = await this.publicClient.readContract({
-      address: this.address,
-      abi: CrossChainAgentVerifierABI,
-      functionName: 'getVerificationResult',
-      args: [requestId],
-    });
+    const result = await withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: CrossChainAgentVerifierABI,
+        functionName: 'getVerificationResult',
+        args: [requestId],
+      })
+    );
 
     const verification = result as {
       exists: boolean;
@@ -229,100 +324,349 @@ export class CrossChainVerifierClient {
     };
   }
 
+  /**
+   * Get the result of a reputation query, with the query that was sent
+   *
+   * The verifier stores neither, so the result comes from the
+   * `ReputationReceived` event and the query filters are decoded from the
+   * Teleporter message sent in the request transaction. Both lookups scan
+   * logs from `fromBlock`, which public RPCs usually require.
+   *
+   * @returns The result, or null until the response arrives
+   */
+  async getReputationResult(
+    requestId: Hash,
+    options: LogQueryOptions = {}
+  ): Promise<ReputationQueryResult | null> {
+    const [received] = await getContractEventLogs<ReputationReceivedEvent>(
+      this.publicClient,
+      {
+        address: this.address,
+        abi: CrossChainAgentVerifierABI,
+        eventName: 'ReputationReceived',
+        args: { requestId },
+      },
+      options
+    );
+    if (!received) {
+      return null;
+    }
+
+    return this.toReputationResult(received, options);
+  }
+
   /**
    * Get the required gas limit for cross-chain messages
    */
   async getRequiredGasLimit(): Promise<bigint> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: CrossChainAgentVerifierABI,
-      functionName: 'requiredGasLimit',
-    }) as Promise<bigint>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: CrossChainAgentVerifierABI,
+        functionName: 'requiredGasLimit',
+      })
+    ) as Promise<bigint>;
   }
 
   // ═══════════════════════════════════════════════════════════════════════
   // WRITE FUNCTIONS
   // ═══════════════════════════════════════════════════════════════════════
+  //
+  // Writes are simulated with `eth_call` before sending unless the client was
+  // created with `simulateWrites: false`. Each write has a `simulate*` twin
+  // that only runs the simulation and returns the function's return value.
 
-  private requireWallet(): WalletClient {
-    if (!this.walletClient) {
-      throw new Error('WalletClient required for write operations');
-    }
-    if (!this.walletClient.account) {
-      throw new Error('WalletClient must have an account for signing');
-    }
-    return this.walletClient;
+  private requestResult<TEvent extends { readonly requestId: Hash }>(
+    hash: Hash,
+    eventName: string
+  ) {
+    return createTransactionResult(this.publicClient, hash, (receipt) => {
+      const event = getEventArgs<TEvent>(receipt, {
+        abi: CrossChainAgentVerifierABI,
+        address: this.address,
+        eventName,
+      });
+      return { requestId: event.requestId, event };
+    });
+  }
+
+  private queryReputationArgs(
+    params: QueryReputationParams
+  ): VerifierWriteArgs<'queryReputation'> {
+    return [
+      params.sourceChain,
+      params.agentId,
+      params.clients ?? [],
+      params.tag1 ?? '',
+      params.tag2 ?? '',
+    ];
   }
 
   /**
    * Request verification of an agent on a remote chain
-   * @returns The request ID for tracking the verification
+   * @returns Result whose receipt carries the request ID for tracking
    */
-  async verifyAgent(params: VerifyAgentParams): Promise<Hash> {
-    const wallet = this.requireWallet();
-
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: CrossChainAgentVerifierABI,
-      functionName: 'verifyAgent',
-      args: [params.sourceChain, params.agentId],
-    });
+  async verifyAgent(params: VerifyAgentParams): Promise<VerifyAgentResult> {
+    const hash = await this.writer.write('verifyAgent', [
+      params.sourceChain,
+      params.agentId,
+    ]);
+
+    return this.requestResult<VerificationRequestedEvent>(
+      hash,
+      'VerificationRequested'
+    );
+  }
+
+  /**
+   * Simulate requesting verification of an agent
+   * @returns The request ID if mined in the next block (it includes the
+   * block number, so the mined request ID will usually differ)
+   */
+  async simulateVerifyAgent(params: VerifyAgentParams): Promise<Hash> {
+    return this.writer.simulate('verifyAgent', [
+      params.sourceChain,
+      params.agentId,
+    ]) as Promise<Hash>;
   }
 
   /**
    * Query reputation of an agent on a remote chain
-   * @returns The request ID for tracking the query
+   * @returns Result whose receipt carries the request ID for tracking
    */
-  async queryReputation(params: QueryReputationParams): Promise<Hash> {
-    const wallet = this.requireWallet();
-
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: CrossChainAgentVerifierABI,
-      functionName: 'queryReputation',
-      args: [
-        params.sourceChain,
-        params.agentId,
-        params.clients ?? [],
-        params.tag1 ?? '',
-        params.tag2 ?? '',
-      ],
-    });
+  async queryReputation(
+    params: QueryReputationParams
+  ): Promise<QueryReputationResult> {
+    const hash = await this.writer.write(
+      'queryReputation',
+      this.queryReputationArgs(params)
+    );
+
+    return this.requestResult<ReputationQueriedEvent>(hash, 'ReputationQueried');
+  }
+
+  /**
+   * Simulate querying reputation of an agent
+   * @returns The request ID if mined in the next block
+   */
+  async simulateQueryReputation(params: QueryReputationParams): Promise<Hash> {
+    return this.writer.simulate(
+      'queryReputation',
+      this.queryReputationArgs(params)
+    ) as Promise<Hash>;
   }
 
   /**
    * Configure a remote registry address (owner only)
    */
-  async configureRegistry(chainId: Hash, registry: Address): Promise<Hash> {
-    const wallet = this.requireWallet();
-
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: CrossChainAgentVerifierABI,
-      functionName: 'configureRegistry',
-      args: [chainId, registry],
-    });
+  async configureRegistry(
+    chainId: Hash,
+    registry: Address
+  ): Promise<EventTransactionResult<RegistryConfiguredEvent>> {
+    const hash = await this.writer.write('configureRegistry', [
+      chainId,
+      registry,
+    ]);
+
+    return this.writer.eventResult<RegistryConfiguredEvent>(
+      hash,
+      'RegistryConfigured'
+    );
+  }
+
+  /**
+   * Simulate configuring a remote registry address
+   */
+  async simulateConfigureRegistry(
+    chainId: Hash,
+    registry: Address
+  ): Promise<void> {
+    await this.writer.simulate('configureRegistry', [chainId, registry]);
   }
 
   /**
    * Set the required gas limit for messages (owner only)
    */
-  async setRequiredGasLimit(gasLimit: bigint): Promise<Hash> {
-    const wallet = this.requireWallet();
-
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: CrossChainAgentVerifierABI,
-      functionName: 'setRequiredGasLimit',
-      args: [gasLimit],
+  async setRequiredGasLimit(gasLimit: bigint): Promise<TransactionResult> {
+    const hash = await this.writer.write('setRequiredGasLimit', [gasLimit]);
+
+    return createTransactionResult(this.publicClient, hash);
+  }
+
+  /**
+   * Simulate setting the required gas limit for messages
+   */
+  async simulateSetRequiredGasLimit(gasLimit: bigint): Promise<void> {
+    await this.writer.simulate('setRequiredGasLimit', [gasLimit]);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // ROUND TRIPS
+  // ═══════════════════════════════════════════════════════════════════════
+  //
+  // A request is answered by the source chain's registry over Teleporter, a
+  // few blocks to minutes later. On timeout these throw CrossChainTimeoutError;
+  // the request may still be answered, so waiting can resume from the error's
+  // `requestId` and `fromBlock`.
+
+  private async waitForResponse<TEvent>(
+    eventName: string,
+    requestId: Hash,
+    options: WaitForResponseOptions
+  ): Promise<ContractEventLog<TEvent>> {
+    const timeout = options.timeout ?? DEFAULT_RESPONSE_TIMEOUT;
+    const log = await waitForContractEvent<TEvent>(
+      this.publicClient,
+      {
+        address: this.address,
+        abi: CrossChainAgentVerifierABI,
+        eventName,
+        args: { requestId },
+      },
+      { ...options, timeout }
+    );
+
+    if (!log) {
+      throw new CrossChainTimeoutError(
+        requestId,
+        eventName,
+        timeout,
+        options.fromBlock
+      );
+    }
+    return log;
+  }
+
+  private async toReputationResult(
+    received: ContractEventLog<ReputationReceivedEvent>,
+    options: LogQueryOptions
+  ): Promise<ReputationQueryResult> {
+    const { requestId } = received.event;
+    const [queried] = await getContractEventLogs<ReputationQueriedEvent>(
+      this.publicClient,
+      {
+        address: this.address,
+        abi: CrossChainAgentVerifierABI,
+        eventName: 'ReputationQueried',
+        args: { requestId },
+      },
+      { fromBlock: options.fromBlock, toBlock: received.blockNumber }
+    );
+    if (!queried) {
+      throw new EventNotFoundError(
+        'ReputationQueried',
+        received.transactionHash
+      );
+    }
+
+    const receipt = await withContractErrors(
+      this.publicClient.getTransactionReceipt({
+        hash: queried.transactionHash,
+      })
+    );
+    const sent = parseEventLogs({
+      abi: TeleporterMessengerABI,
+      eventName: 'SendCrossChainMessage',
+      logs: receipt.logs,
+    });
+
+    for (const log of sent) {
+      const { message } = log.args as unknown as SendCrossChainMessageEvent;
+      if (!isAddressEqual(message.originSenderAddress, this.address)) {
+        continue;
+      }
+      const [, sentRequestId, agentId, clients, tag1, tag2] =
+        decodeAbiParameters(ReputationQueryMessage, message.message);
+      if (sentRequestId !== requestId) {
+        continue;
+      }
+
+      return {
+        requestId,
+        feedbackCount: received.event.feedbackCount,
+        aggregateScore: received.event.aggregateScore,
+        query: {
+          sourceChain: queried.event.sourceChain,
+          agentId,
+          clients,
+          tag1,
+          tag2,
+        },
+        blockNumber: received.blockNumber,
+      };
+    }
+
+    throw new EventNotFoundError(
+      'SendCrossChainMessage',
+      queried.transactionHash
+    );
+  }
+
+  /**
+   * Request verification of an agent and wait for the remote response
+   */
+  async verifyAgentAndWait(
+    params: VerifyAgentParams,
+    options: WaitForResponseOptions = {}
+  ): Promise<AgentVerification> {
+    const receipt = await (await this.verifyAgent(params)).wait();
+
+    return this.waitForVerification(receipt.requestId, {
+      fromBlock: receipt.blockNumber,
+      ...options,
     });
   }
+
+  /**
+   * Wait for the response to a verification request
+   *
+   * Pass the request's block as `fromBlock` when resuming, or a response that
+   * already arrived will be missed.
+   */
+  async waitForVerification(
+    requestId: Hash,
+    options: WaitForResponseOptions = {}
+  ): Promise<AgentVerification> {
+    await this.waitForResponse<VerificationReceivedEvent>(
+      'VerificationReceived',
+      requestId,
+      options
+    );
+
+    return this.getVerificationResult(requestId);
+  }
+
+  /**
+   * Query reputation of an agent and wait for the remote response
+   */
+  async queryReputationAndWait(
+    params: QueryReputationParams,
+    options: WaitForResponseOptions = {}
+  ): Promise<ReputationQueryResult> {
+    const receipt = await (await this.queryReputation(params)).wait();
+
+    return this.waitForReputation(receipt.requestId, {
+      fromBlock: receipt.blockNumber,
+      ...options,
+    });
+  }
+
+  /**
+   * Wait for the response to a reputation query
+   *
+   * Pass the request's block as `fromBlock` when resuming, or a response that
+   * already arrived will be missed.
+   */
+  async waitForReputation(
+    requestId: Hash,
+    options: WaitForResponseOptions = {}
+  ): Promise<ReputationQueryResult> {
+    const received = await this.waitForResponse<ReputationReceivedEvent>(
+      'ReputationReceived',
+      requestId,
+      options
+    );
+
+    return this.toReputationResult(received, options);
+  }
 }
@@ -0,0 +1,283 @@
+import type {
+  Address,
+  Hash,
+  PublicClient,
+  WalletClient,
+} from 'viem';
+import type {
+  EmitProofResult,
+  ProofEmittedEvent,
+  RegistryClientOptions,
+} from '../types';
+import { EventNotFoundError, withContractErrors } from '../errors';
+import {
+  ContractWriter,
+  createTransactionResult,
+  getEventArgs,
+} from '../utils/transaction';
+import {
+  findWarpMessage,
+  parseAddressedCall,
+  parseUnsignedWarpMessage,
+} from '../utils/warp';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ABI
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const AgentProofEmitterABI = [
+  // Read functions
+  {
+    type: 'function',
+    name: 'identityRegistry',
+    inputs: [],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'reputationRegistry',
+    inputs: [],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'validationRegistry',
+    inputs: [],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'PROOF_IDENTITY',
+    inputs: [],
+    outputs: [{ type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'PROOF_REPUTATION',
+    inputs: [],
+    outputs: [{ type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'PROOF_VALIDATION',
+    inputs: [],
+    outputs: [{ type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'SCHEMA_VERSION',
+    inputs: [],
+    outputs: [{ type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  // Write functions
+  {
+    type: 'function',
+    name: 'emitIdentityProof',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [{ name: 'messageId', type: 'bytes32' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'emitReputationProof',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [{ name: 'messageId', type: 'bytes32' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'emitValidationProof',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'requestHash', type: 'bytes32' },
+    ],
+    outputs: [{ name: 'messageId', type: 'bytes32' }],
+    stateMutability: 'nonpayable',
+  },
+  // Errors
+  {
+    type: 'error',
+    name: 'AgentDoesNotExist',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+  },
+  // Events
+  {
+    type: 'event',
+    name: 'IdentityProofEmitted',
+    inputs: [
+      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'messageId', type: 'bytes32', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ReputationProofEmitted',
+    inputs: [
+      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'messageId', type: 'bytes32', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ValidationProofEmitted',
+    inputs: [
+      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'messageId', type: 'bytes32', indexed: true },
+    ],
+  },
+] as const;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CLIENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Proof emitter client for sending Warp-signed agent proofs from the home chain
+ */
+export class ProofEmitterClient {
+  private readonly address: Address;
+  private readonly publicClient: PublicClient;
+  private readonly writer: ContractWriter<typeof AgentProofEmitterABI>;
+
+  constructor(
+    address: Address,
+    publicClient: PublicClient,
+    walletClient?: WalletClient,
+    options: RegistryClientOptions = {}
+  ) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.writer = new ContractWriter(
+      publicClient,
+      walletClient,
+      { address, abi: AgentProofEmitterABI },
+      options.simulateWrites
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // READ FUNCTIONS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the proof schema version the emitter encodes
+   */
+  async getSchemaVersion(): Promise<number> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentProofEmitterABI,
+        functionName: 'SCHEMA_VERSION',
+      })
+    ) as Promise<number>;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // WRITE FUNCTIONS
+  // ═══════════════════════════════════════════════════════════════════════
+  //
+  // Writes are simulated with `eth_call` before sending unless the client was
+  // created with `simulateWrites: false`. Each write has a `simulate*` twin
+  // that only runs the simulation and returns the function's return value.
+
+  private proofResult(hash: Hash, eventName: string): EmitProofResult {
+    return createTransactionResult(this.publicClient, hash, (receipt) => {
+      const event = getEventArgs<ProofEmittedEvent>(receipt, {
+        abi: AgentProofEmitterABI,
+        address: this.address,
+        eventName,
+      });
+      const unsignedMessage = findWarpMessage(receipt, event.messageId);
+      if (!unsignedMessage) {
+        throw new EventNotFoundError('SendWarpMessage', hash);
+      }
+      const warpMessage = parseUnsignedWarpMessage(unsignedMessage);
+
+      return {
+        messageId: event.messageId,
+        event,
+        unsignedMessage,
+        warpMessage,
+        addressedCall: parseAddressedCall(warpMessage.payload),
+      };
+    });
+  }
+
+  /**
+   * Emit a Warp-signed proof of an agent's owner and endpoint
+   * @returns Result whose receipt carries the Warp message ID and message
+   */
+  async emitIdentityProof(agentId: bigint): Promise<EmitProofResult> {
+    const hash = await this.writer.write('emitIdentityProof', [agentId]);
+
+    return this.proofResult(hash, 'IdentityProofEmitted');
+  }
+
+  /**
+   * Simulate emitting an identity proof
+   * @returns The Warp message ID if mined in the next block (the payload
+   * includes the block timestamp, so the mined ID will usually differ)
+   */
+  async simulateEmitIdentityProof(agentId: bigint): Promise<Hash> {
+    return this.writer.simulate('emitIdentityProof', [
+      agentId,
+    ]) as Promise<Hash>;
+  }
+
+  /**
+   * Emit a Warp-signed snapshot of an agent's aggregate reputation
+   * @returns Result whose receipt carries the Warp message ID and message
+   */
+  async emitReputationProof(agentId: bigint): Promise<EmitProofResult> {
+    const hash = await this.writer.write('emitReputationProof', [agentId]);
+
+    return this.proofResult(hash, 'ReputationProofEmitted');
+  }
+
+  /**
+   * Simulate emitting a reputation proof
+   * @returns The Warp message ID if mined in the next block
+   */
+  async simulateEmitReputationProof(agentId: bigint): Promise<Hash> {
+    return this.writer.simulate('emitReputationProof', [
+      agentId,
+    ]) as Promise<Hash>;
+  }
+
+  /**
+   * Emit a Warp-signed attestation of a validation response
+   * @returns Result whose receipt carries the Warp message ID and message
+   */
+  async emitValidationProof(
+    agentId: bigint,
+    requestHash: Hash
+  ): Promise<EmitProofResult> {
+    const hash = await this.writer.write('emitValidationProof', [
+      agentId,
+      requestHash,
+    ]);
+
+    return this.proofResult(hash, 'ValidationProofEmitted');
+  }
+
+  /**
+   * Simulate emitting a validation proof
+   * @returns The Warp message ID if mined in the next block
+   */
+  async simulateEmitValidationProof(
+    agentId: bigint,
+    requestHash: Hash
+  ): Promise<Hash> {
+    return this.writer.simulate('emitValidationProof', [
+      agentId,
+      requestHash,
+    ]) as Promise<Hash>;
+  }
+}
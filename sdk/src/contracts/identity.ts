@@ -1,15 +1,37 @@
 import type {
   Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
   Hash,
   Hex,
   PublicClient,
   WalletClient,
 } from 'viem';
 import type {
+  AgentRecord,
+  AgentRegisteredEvent,
+  AgentURIUpdatedEvent,
+  AgentWalletSetEvent,
+  AgentWalletUnsetEvent,
+  BatchReadOptions,
+  BatchResult,
+  EndpointUpdatedEvent,
+  EventTransactionResult,
   MetadataEntry,
+  MetadataUpdatedEvent,
   RegisterAgentParams,
+  RegisterAgentResult,
+  RegistryClientOptions,
   WalletLinkParams,
 } from '../types';
+import { withContractErrors } from '../errors';
+import {
+  ContractWriter,
+  createTransactionResult,
+  getEventArgs,
+} from '../utils/transaction';
+import { validateEndpoint } from '../utils/endpoint';
+import { batchReads } from '../utils/multicall';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // ABI
@@ -69,6 +91,13 @@ export const AgentIdentityRegistryABI = [
     outputs: [{ type: 'bytes' }],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'getEndpoint',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [{ type: 'string' }],
+    stateMutability: 'view',
+  },
   {
     type: 'function',
     name: 'DOMAIN_SEPARATOR',
@@ -148,6 +177,47 @@ export const AgentIdentityRegistryABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  {
+    type: 'function',
+    name: 'setEndpoint',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'endpoint', type: 'string' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  // Errors
+  {
+    type: 'error',
+    name: 'AgentNotFound',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+  },
+  {
+    type: 'error',
+    name: 'NotAgentOwner',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'caller', type: 'address' },
+    ],
+  },
+  { type: 'error', name: 'InvalidSignature', inputs: [] },
+  { type: 'error', name: 'SignatureExpired', inputs: [] },
+  {
+    type: 'error',
+    name: 'WalletAlreadySet',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+  },
+  {
+    type: 'error',
+    name: 'WalletNotSet',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+  },
+  {
+    type: 'error',
+    name: 'ERC721NonexistentToken',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+  },
   // Events
   {
     type: 'event',
@@ -188,8 +258,27 @@ export const AgentIdentityRegistryABI = [
     name: 'AgentWalletUnset',
     inputs: [{ name: 'agentId', type: 'uint256', indexed: true }],
   },
+  {
+    type: 'event',
+    name: 'EndpointUpdated',
+    inputs: [
+      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'endpoint', type: 'string', indexed: false },
+    ],
+  },
 ] as const;
 
+type IdentityWriteName = ContractFunctionName<
+  typeof AgentIdentityRegistryABI,
+  'nonpayable'
+>;
+
+type IdentityWriteArgs<TName extends IdentityWriteName> = ContractFunctionArgs<
+  typeof AgentIdentityRegistryABI,
+  'nonpayable',
+  TName
+>;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CLIENT
 // ═══════════════════════════════════════════════════════════════════════════
@@ -200,16 +289,22 @@ export const AgentIdentityRegistryABI = [
 export class IdentityRegistryClient {
   private readonly address: Address;
   private readonly publicClient: PublicClient;
-  private readonly walletClient?: WalletClient;
+  private readonly writer: ContractWriter<typeof AgentIdentityRegistryABI>;
 
   constructor(
     address: Address,
     publicClient: PublicClient,
-    walletClient?: WalletClient
+    walletClient?: WalletClient,
+    options: RegistryClientOptions = {}
   ) {
     this.address = address;
     this.publicClient = publicClient;
-    this.walletClient = walletClient;
+    this.writer = new ContractWriter(
+      publicClient,
+      walletClient,
+      { address, abi: AgentIdentityRegistryABI },
+      options.simulateWrites
+    );
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -220,160 +315,245 @@ export class IdentityRegistryClient {
    * Check if an agent exists
    */
   async agentExists(agentId: bigint): Promise<boolean> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'agentExists',
-      args: [agentId],
-    }) as Promise<boolean>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentIdentityRegistryABI,
+        functionName: 'agentExists',
+        args: [agentId],
+      })
+    ) as Promise<boolean>;
   }
 
   /**
    * Get the owner of an agent
    */
   async ownerOf(agentId: bigint): Promise<Address> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'ownerOf',
-      args: [agentId],
-    }) as Promise<Address>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentIdentityRegistryABI,
+        functionName: 'ownerOf',
+        args: [agentId],
+      })
+    ) as Promise<Address>;
   }
 
   /**
    * Get the URI of an agent
    */
   async tokenURI(agentId: bigint): Promise<string> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'tokenURI',
-      args: [agentId],
-    }) as Promise<string>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentIdentityRegistryABI,
+        functionName: 'tokenURI',
+        args: [agentId],
+      })
+    ) as Promise<string>;
   }
 
   /**
    * Get the total number of registered agents
    */
   async totalAgents(): Promise<bigint> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'totalAgents',
-    }) as Promise<bigint>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentIdentityRegistryABI,
+        functionName: 'totalAgents',
+      })
+    ) as Promise<bigint>;
   }
 
   /**
    * Get the linked wallet for an agent
    */
   async getAgentWallet(agentId: bigint): Promise<Address> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'getAgentWallet',
-      args: [agentId],
-    }) as Promise<Address>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentIdentityRegistryABI,
+        functionName: 'getAgentWallet',
+        args: [agentId],
+      })
+    ) as Promise<Address>;
   }
 
   /**
    * Get the agent ID for a linked wallet
    */
   async getAgentByWallet(wallet: Address): Promise<bigint> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'getAgentByWallet',
-      args: [wallet],
-    }) as Promise<bigint>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentIdentityRegistryABI,
+        functionName: 'getAgentByWallet',
+        args: [wallet],
+      })
+    ) as Promise<bigint>;
   }
 
   /**
    * Get metadata value for an agent
    */
   async getMetadata(agentId: bigint, key: string): Promise<Hex> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'getMetadata',
-      args: [agentId, key],
-    }) as Promise<Hex>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentIdentityRegistryABI,
+        functionName: 'getMetadata',
+        args: [agentId, key],
+      })
+    ) as Promise<Hex>;
+  }
+
+  /**
+   * Get the A2A endpoint for an agent (empty string if not set)
+   */
+  async getEndpoint(agentId: bigint): Promise<string> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentIdentityRegistryABI,
+        functionName: 'getEndpoint',
+        args: [agentId],
+      })
+    ) as Promise<string>;
   }
 
   /**
    * Get the EIP-712 domain separator
    */
   async getDomainSeparator(): Promise<Hash> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'DOMAIN_SEPARATOR',
-    }) as Promise<Hash>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentIdentityRegistryABI,
+        functionName: 'DOMAIN_SEPARATOR',
+      })
+    ) as Promise<Hash>;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // BATCHED READS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get owner, URI, wallet and endpoint for many agents via Multicall3
+   * @returns One result per ID, in order; missing agents fail individually
+   */
+  async getAgents(
+    agentIds: readonly bigint[],
+    options: BatchReadOptions = {}
+  ): Promise<BatchResult<AgentRecord>[]> {
+    const fields = [
+      'ownerOf',
+      'tokenURI',
+      'getAgentWallet',
+      'getEndpoint',
+    ] as const;
+    const results = await batchReads(
+      this.publicClient,
+      agentIds.flatMap((agentId) =>
+        fields.map((functionName) => ({
+          address: this.address,
+          abi: AgentIdentityRegistryABI,
+          functionName,
+          args: [agentId],
+        }))
+      ),
+      options
+    );
+
+    return agentIds.map((agentId, i) => {
+      const group = results.slice(i * fields.length, (i + 1) * fields.length);
+      const failed = group.find((result) => result.status === 'failure');
+      if (failed) {
+        return failed;
+      }
+
+      const [owner, agentURI, wallet, endpoint] = group.map(
+        (result) => (result as { result: unknown }).result
+      ) as [Address, string, Address, string];
+      return {
+        status: 'success',
+        result: { agentId, owner, agentURI, wallet, endpoint },
+      };
+    });
   }
 
   // ═══════════════════════════════════════════════════════════════════════
   // WRITE FUNCTIONS
   // ═══════════════════════════════════════════════════════════════════════
+  //
+  // Writes are simulated with `eth_call` before sending unless the client was
+  // created with `simulateWrites: false`. Each write has a `simulate*` twin
+  // that only runs the simulation and returns the function's return value.
 
-  private requireWallet(): WalletClient {
-    if (!this.walletClient) {
-      throw new Error('WalletClient required for write operations');
-    }
-    if (!this.walletClient.account) {
-      throw new Error('WalletClient must have an account for signing');
+  private registerArgs(
+    params?: RegisterAgentParams
+  ): IdentityWriteArgs<'register'> {
+    if (params?.metadata && params.metadata.length > 0) {
+      return [params.agentURI ?? '', params.metadata as MetadataEntry[]];
+    } else if (params?.agentURI) {
+      return [params.agentURI];
+    } else {
+      return [];
     }
-    return this.walletClient;
   }
 
   /**
    * Register a new agent
+   *
+   * The agentId is only known once the transaction is mined, so it is read
+   * from the `AgentRegistered` event when `wait()` resolves.
    */
-  async register(params?: RegisterAgentParams): Promise<Hash> {
-    const wallet = this.requireWallet();
+  async register(params?: RegisterAgentParams): Promise<RegisterAgentResult> {
+    const hash = await this.writer.write('register', this.registerArgs(params));
 
-    if (params?.metadata && params.metadata.length > 0) {
-      return wallet.writeContract({
-        chain: wallet.chain,
-        account: wallet.account!,
-        address: this.address,
-        abi: AgentIdentityRegistryABI,
-        functionName: 'register',
-        args: [params.agentURI ?? '', params.metadata as MetadataEntry[]],
-      });
-    } else if (params?.agentURI) {
-      return wallet.writeContract({
-        chain: wallet.chain,
-        account: wallet.account!,
-        address: this.address,
+    return createTransactionResult(this.publicClient, hash, (receipt) => {
+      const event = getEventArgs<AgentRegisteredEvent>(receipt, {
         abi: AgentIdentityRegistryABI,
-        functionName: 'register',
-        args: [params.agentURI],
-      });
-    } else {
-      return wallet.writeContract({
-        chain: wallet.chain,
-        account: wallet.account!,
         address: this.address,
-        abi: AgentIdentityRegistryABI,
-        functionName: 'register',
-        args: [],
+        eventName: 'AgentRegistered',
       });
-    }
+      return { agentId: event.agentId, event };
+    });
+  }
+
+  /**
+   * Simulate a registration
+   * @returns The agentId the registration would mint if mined in the next
+   * block (another registration landing first will shift it)
+   */
+  async simulateRegister(params?: RegisterAgentParams): Promise<bigint> {
+    return this.writer.simulate(
+      'register',
+      this.registerArgs(params)
+    ) as Promise<bigint>;
   }
 
   /**
    * Update the URI for an agent
    */
-  async setAgentURI(agentId: bigint, agentURI: string): Promise<Hash> {
-    const wallet = this.requireWallet();
-
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'setAgentURI',
-      args: [agentId, agentURI],
-    });
+  async setAgentURI(
+    agentId: bigint,
+    agentURI: string
+  ): Promise<EventTransactionResult<AgentURIUpdatedEvent>> {
+    const hash = await this.writer.write('setAgentURI', [agentId, agentURI]);
+
+    return this.writer.eventResult<AgentURIUpdatedEvent>(
+      hash,
+      'AgentURIUpdated'
+    );
+  }
+
+  /**
+   * Simulate updating the URI for an agent
+   */
+  async simulateSetAgentURI(agentId: bigint, agentURI: string): Promise<void> {
+    await this.writer.simulate('setAgentURI', [agentId, agentURI]);
   }
 
   /**
@@ -383,48 +563,97 @@ export class IdentityRegistryClient {
     agentId: bigint,
     key: string,
     value: Hex
-  ): Promise<Hash> {
-    const wallet = this.requireWallet();
-
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'setMetadata',
-      args: [agentId, key, value],
-    });
+  ): Promise<EventTransactionResult<MetadataUpdatedEvent>> {
+    const hash = await this.writer.write('setMetadata', [agentId, key, value]);
+
+    return this.writer.eventResult<MetadataUpdatedEvent>(
+      hash,
+      'MetadataUpdated'
+    );
+  }
+
+  /**
+   * Simulate setting metadata for an agent
+   */
+  async simulateSetMetadata(
+    agentId: bigint,
+    key: string,
+    value: Hex
+  ): Promise<void> {
+    await this.writer.simulate('setMetadata', [agentId, key, value]);
   }
 
   /**
    * Link a wallet to an agent using EIP-712 signature
    */
-  async setAgentWallet(params: WalletLinkParams): Promise<Hash> {
-    const wallet = this.requireWallet();
-
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'setAgentWallet',
-      args: [params.agentId, params.wallet, params.deadline, params.signature],
-    });
+  async setAgentWallet(
+    params: WalletLinkParams
+  ): Promise<EventTransactionResult<AgentWalletSetEvent>> {
+    const hash = await this.writer.write('setAgentWallet', [
+      params.agentId,
+      params.wallet,
+      params.deadline,
+      params.signature,
+    ]);
+
+    return this.writer.eventResult<AgentWalletSetEvent>(hash, 'AgentWalletSet');
+  }
+
+  /**
+   * Simulate linking a wallet to an agent
+   */
+  async simulateSetAgentWallet(params: WalletLinkParams): Promise<void> {
+    await this.writer.simulate('setAgentWallet', [
+      params.agentId,
+      params.wallet,
+      params.deadline,
+      params.signature,
+    ]);
   }
 
   /**
    * Unlink a wallet from an agent
    */
-  async unsetAgentWallet(agentId: bigint): Promise<Hash> {
-    const wallet = this.requireWallet();
-
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: AgentIdentityRegistryABI,
-      functionName: 'unsetAgentWallet',
-      args: [agentId],
-    });
+  async unsetAgentWallet(
+    agentId: bigint
+  ): Promise<EventTransactionResult<AgentWalletUnsetEvent>> {
+    const hash = await this.writer.write('unsetAgentWallet', [agentId]);
+
+    return this.writer.eventResult<AgentWalletUnsetEvent>(
+      hash,
+      'AgentWalletUnset'
+    );
+  }
+
+  /**
+   * Simulate unlinking a wallet from an agent
+   */
+  async simulateUnsetAgentWallet(agentId: bigint): Promise<void> {
+    await this.writer.simulate('unsetAgentWallet', [agentId]);
+  }
+
+  /**
+   * Set the A2A endpoint other agents use to reach this agent
+   * @param endpoint - An http(s)/ws(s) URL or a DID; empty string clears it
+   */
+  async setEndpoint(
+    agentId: bigint,
+    endpoint: string
+  ): Promise<EventTransactionResult<EndpointUpdatedEvent>> {
+    validateEndpoint(endpoint);
+    const hash = await this.writer.write('setEndpoint', [agentId, endpoint]);
+
+    return this.writer.eventResult<EndpointUpdatedEvent>(
+      hash,
+      'EndpointUpdated'
+    );
+  }
+
+  /**
+   * Simulate setting the A2A endpoint for an agent
+   */
+  async simulateSetEndpoint(agentId: bigint, endpoint: string): Promise<void> {
+    validateEndpoint(endpoint);
+    await this.writer.simulate('setEndpoint', [agentId, endpoint]);
   }
 }
@@ -1,11 +1,37 @@
 import type {
   Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
   Hash,
   Hex,
   PublicClient,
   WalletClient,
 } from 'viem';
-import type { Feedback, GiveFeedbackParams, Summary } from '../types';
+import type {
+  BatchReadOptions,
+  BatchResult,
+  EventTransactionResult,
+  Feedback,
+  FeedbackGivenEvent,
+  FeedbackKey,
+  FeedbackEntry,
+  FeedbackPage,
+  FeedbackReadFailure,
+  FeedbackRevokedEvent,
+  GiveFeedbackParams,
+  ListFeedbackOptions,
+  LogQueryOptions,
+  ResponseAppendedEvent,
+  Summary,
+  RegistryClientOptions,
+  ResolveDocumentsOptions,
+  UriResolver,
+} from '../types';
+import { withContractErrors } from '../errors';
+import { ContractWriter } from '../utils/transaction';
+import { getContractEventLogs } from '../utils/logs';
+import { batchReads, mapBatchResult } from '../utils/multicall';
+import { DefaultUriResolver, resolveCommittedDocument } from '../utils/uri';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // ABI
@@ -120,6 +146,42 @@ export const AgentReputationRegistryABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  // Errors
+  {
+    type: 'error',
+    name: 'AgentNotRegistered',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+  },
+  {
+    type: 'error',
+    name: 'NotFeedbackOwner',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'index', type: 'uint64' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'FeedbackAlreadyRevoked',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'index', type: 'uint64' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'FeedbackNotFound',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'client', type: 'address' },
+      { name: 'index', type: 'uint64' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'NotAgentOwner',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+  },
   // Events
   {
     type: 'event',
@@ -153,6 +215,52 @@ export const AgentReputationRegistryABI = [
   },
 ] as const;
 
+type ReputationWriteName = ContractFunctionName<
+  typeof AgentReputationRegistryABI,
+  'nonpayable'
+>;
+
+type ReputationWriteArgs<TName extends ReputationWriteName> = ContractFunctionArgs<
+  typeof AgentReputationRegistryABI,
+  'nonpayable',
+  TName
+>;
+
+/**
+ * `readFeedback` return value as decoded by viem
+ */
+interface FeedbackTuple {
+  readonly client: Address;
+  readonly value: bigint;
+  readonly valueDecimals: number;
+  readonly tag1: string;
+  readonly tag2: string;
+  readonly endpoint: string;
+  readonly feedbackURI: string;
+  readonly feedbackHash: Hash;
+  readonly responseURI: string;
+  readonly responseHash: Hash;
+  readonly timestamp: bigint;
+  readonly revoked: boolean;
+}
+
+function toFeedback(fb: FeedbackTuple): Feedback {
+  return {
+    client: fb.client,
+    value: fb.value,
+    valueDecimals: fb.valueDecimals,
+    tag1: fb.tag1,
+    tag2: fb.tag2,
+    endpoint: fb.endpoint,
+    feedbackURI: fb.feedbackURI,
+    feedbackHash: fb.feedbackHash,
+    responseURI: fb.responseURI,
+    responseHash: fb.responseHash,
+    timestamp: fb.timestamp,
+    revoked: fb.revoked,
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CLIENT
 // ═══════════════════════════════════════════════════════════════════════════
@@ -163,16 +271,24 @@ export const AgentReputationRegistryABI = [
 export class ReputationRegistryClient {
   private readonly address: Address;
   private readonly publicClient: PublicClient;
-  private readonly walletClient?: WalletClient;
+  private readonly writer: ContractWriter<typeof AgentReputationRegistryABI>;
+  private readonly uriResolver: UriResolver;
 
   constructor(
     address: Address,
     publicClient: PublicClient,
-    walletClient?: WalletClient
+    walletClient?: WalletClient,
+    options: RegistryClientOptions = {}
   ) {
     this.address = address;
     this.publicClient = publicClient;
-    this.walletClient = walletClient;
+    this.writer = new ContractWriter(
+      publicClient,
+      walletClient,
+      { address, abi: AgentReputationRegistryABI },
+      options.simulateWrites
+    );
+    this.uriResolver = options.uriResolver ?? new DefaultUriResolver();
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -183,12 +299,14 @@ export class ReputationRegistryClient {
    * Get total feedback count for an agent
    */
   async getFeedbackCount(agentId: bigint): Promise<bigint> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentReputationRegistryABI,
-      functionName: 'getFeedbackCount',
-      args: [agentId],
-    }) as Promise<bigint>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentReputationRegistryABI,
+        functionName: 'getFeedbackCount',
+        args: [agentId],
+      })
+    ) as Promise<bigint>;
   }
 
   /**
@@ -198,58 +316,61 @@ export class ReputationRegistryClient {
     agentId: bigint,
     client: Address
   ): Promise<bigint> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentReputationRegistryABI,
-      functionName: 'getClientFeedbackCount',
-      args: [agentId, client],
-    }) as Promise<bigint>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentReputationRegistryABI,
+        functionName: 'getClientFeedbackCount',
+        args: [agentId, client],
+      })
+    ) as Promise<bigint>;
   }
 
   /**
    * Read a specific feedback entry
+   *
+   * With `resolveDocuments`, the feedback and response documents are
+   * fetched too and checked against their committed hashes; a document that
+   * fails to resolve or does not match is returned as a failure.
    */
   async readFeedback(
     agentId: bigint,
     client: Address,
-    index: bigint
+    index: bigint,
+    options: ResolveDocumentsOptions = {}
   ): Promise<Feedback> {
-    const result = await this.publicClient.readContract({
-      address: this.address,
-      abi: AgentReputationRegistryABI,
-      functionName: 'readFeedback',
-      args: [agentId, client, index],
-    });
+    const result = await withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentReputationRegistryABI,
+        functionName: 'readFeedback',
+        args: [agentId, client, index],
+      })
+    );
 
-    // Map tuple to Feedback type
-    const fb = result as {
-      client: Address;
-      value: bigint;
-      valueDecimals: number;
-      tag1: string;
-      tag2: string;
-      endpoint: string;
-      feedbackURI: string;
-      feedbackHash: Hash;
-      responseURI: string;
-      responseHash: Hash;
-      timestamp: bigint;
-      revoked: boolean;
-    };
+    const feedback = toFeedback(result as FeedbackTuple);
+    if (!options.resolveDocuments) {
+      return feedback;
+    }
 
+    const [content, response] = await Promise.all([
+      resolveCommittedDocument(
+        this.uriResolver,
+        feedback.feedbackURI,
+        feedback.feedbackHash
+      ),
+      resolveCommittedDocument(
+        this.uriResolver,
+        feedback.responseURI,
+        feedback.responseHash
+      ),
+    ]);
     return {
-      client: fb.client,
-      value: fb.value,
-      valueDecimals: fb.valueDecimals,
-      tag1: fb.tag1,
-      tag2: fb.tag2,
-      endpoint: fb.endpoint,
-      feedbackURI: fb.feedbackURI,
-      feedbackHash: fb.feedbackHash,
-      responseURI: fb.responseURI,
-      responseHash: fb.responseHash,
-      timestamp: fb.timestamp,
-      revoked: fb.revoked,
+      ...feedback,
+      ...(content.document ? { feedbackDocument: content.document } : {}),
+      ...(content.integrity ? { feedbackIntegrity: content.integrity } : {}),
+      ...(response.document ? { responseDocument: response.document } : {}),
+      ...(response.integrity ? { responseIntegrity: response.integrity } : {}),
     };
   }
 
@@ -262,12 +383,14 @@ export class ReputationRegistryClient {
     tag1 = '',
     tag2 = ''
   ): Promise<Summary> {
-    const result = await this.publicClient.readContract({
-      address: this.address,
-      abi: AgentReputationRegistryABI,
-      functionName: 'getSummary',
-      args: [agentId, clients as Address[], tag1, tag2],
-    });
+    const result = await withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentReputationRegistryABI,
+        functionName: 'getSummary',
+        args: [agentId, clients as Address[], tag1, tag2],
+      })
+    );
 
     const summary = result as {
       count: bigint;
@@ -283,58 +406,210 @@ export class ReputationRegistryClient {
   }
 
   // ═══════════════════════════════════════════════════════════════════════
-  // WRITE FUNCTIONS
+  // BATCHED READS
   // ═══════════════════════════════════════════════════════════════════════
 
-  private requireWallet(): WalletClient {
-    if (!this.walletClient) {
-      throw new Error('WalletClient required for write operations');
-    }
-    if (!this.walletClient.account) {
-      throw new Error('WalletClient must have an account for signing');
-    }
-    return this.walletClient;
+  /**
+   * Read many feedback entries via Multicall3
+   * @returns One result per key, in order; missing entries fail individually
+   */
+  async readFeedbackBatch(
+    keys: readonly FeedbackKey[],
+    options: BatchReadOptions = {}
+  ): Promise<BatchResult<Feedback>[]> {
+    const results = await batchReads<FeedbackTuple>(
+      this.publicClient,
+      keys.map((key) => ({
+        address: this.address,
+        abi: AgentReputationRegistryABI,
+        functionName: 'readFeedback',
+        args: [key.agentId, key.client, key.index],
+      })),
+      options
+    );
+
+    return results.map((result) => mapBatchResult(result, toFeedback));
   }
 
+  // ═══════════════════════════════════════════════════════════════════════
+  // EVENT QUERIES
+  // ═══════════════════════════════════════════════════════════════════════
+
   /**
-   * Give feedback to an agent
+   * Get every client that has given an agent feedback, in order of first
+   * feedback (found through `FeedbackGiven` logs)
    */
-  async giveFeedback(params: GiveFeedbackParams): Promise<Hash> {
-    const wallet = this.requireWallet();
+  async getClients(
+    agentId: bigint,
+    options: LogQueryOptions = {}
+  ): Promise<Address[]> {
+    const logs = await getContractEventLogs<FeedbackGivenEvent>(
+      this.publicClient,
+      {
+        address: this.address,
+        abi: AgentReputationRegistryABI,
+        eventName: 'FeedbackGiven',
+        args: { agentId },
+      },
+      options
+    );
+
+    const clients = new Map<string, Address>();
+    for (const { event } of logs) {
+      clients.set(event.client.toLowerCase(), event.client);
+    }
+    return [...clients.values()];
+  }
 
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
+  /**
+   * List an agent's feedback from every client, oldest first
+   *
+   * The registry cannot enumerate clients, so entries are found through
+   * `FeedbackGiven` logs in the block range, filtered by tag, and only the
+   * requested page is read via Multicall3. Revocations are looked up from
+   * `fromBlock` to the latest block, since feedback given before `toBlock`
+   * can be revoked after it. An entry that fails to read is reported in
+   * `failures`. Public RPCs usually require `fromBlock`.
+   */
+  async listFeedback(
+    agentId: bigint,
+    options: ListFeedbackOptions = {}
+  ): Promise<FeedbackPage> {
+    const query = {
       address: this.address,
       abi: AgentReputationRegistryABI,
-      functionName: 'giveFeedback',
-      args: [
-        params.agentId,
-        params.value,
-        params.valueDecimals ?? 2,
-        params.tag1 ?? '',
-        params.tag2 ?? '',
-        params.endpoint ?? '',
-        params.feedbackURI ?? '',
-        params.feedbackHash ?? ('0x' + '0'.repeat(64)) as Hash,
-      ],
+      args: { agentId },
+    };
+    const [given, revoked] = await Promise.all([
+      getContractEventLogs<FeedbackGivenEvent>(
+        this.publicClient,
+        { ...query, eventName: 'FeedbackGiven' },
+        options
+      ),
+      options.includeRevoked
+        ? []
+        : getContractEventLogs<FeedbackRevokedEvent>(
+            this.publicClient,
+            { ...query, eventName: 'FeedbackRevoked' },
+            { fromBlock: options.fromBlock }
+          ),
+    ]);
+
+    const revokedKeys = new Set(
+      revoked.map(
+        ({ event }) => `${event.client.toLowerCase()}:${event.index}`
+      )
+    );
+    const matching = given.filter(
+      ({ event }) =>
+        (!options.tag1 || event.tag1 === options.tag1) &&
+        (!options.tag2 || event.tag2 === options.tag2) &&
+        !revokedKeys.has(`${event.client.toLowerCase()}:${event.index}`)
+    );
+
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 100;
+    const page = matching.slice(offset, offset + limit);
+    const results = await batchReads<FeedbackTuple>(
+      this.publicClient,
+      page.map(({ event }) => ({
+        address: this.address,
+        abi: AgentReputationRegistryABI,
+        functionName: 'readFeedback',
+        args: [agentId, event.client, event.index],
+      }))
+    );
+
+    const items: FeedbackEntry[] = [];
+    const failures: FeedbackReadFailure[] = [];
+    page.forEach((log, i) => {
+      const result = results[i];
+      const { client, index } = log.event;
+      if (result.status === 'failure') {
+        failures.push({ agentId, client, index, error: result.error });
+        return;
+      }
+      items.push({
+        ...toFeedback(result.result),
+        agentId,
+        index,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
     });
+
+    return {
+      items,
+      failures,
+      total: matching.length,
+      nextOffset: offset + limit < matching.length ? offset + limit : null,
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // WRITE FUNCTIONS
+  // ═══════════════════════════════════════════════════════════════════════
+  //
+  // Writes are simulated with `eth_call` before sending unless the client was
+  // created with `simulateWrites: false`. Each write has a `simulate*` twin
+  // that only runs the simulation and returns the function's return value.
+
+  private giveFeedbackArgs(
+    params: GiveFeedbackParams
+  ): ReputationWriteArgs<'giveFeedback'> {
+    return [
+      params.agentId,
+      params.value,
+      params.valueDecimals ?? 2,
+      params.tag1 ?? '',
+      params.tag2 ?? '',
+      params.endpoint ?? '',
+      params.feedbackURI ?? '',
+      params.feedbackHash ?? ('0x' + '0'.repeat(64)) as Hash,
+    ];
+  }
+
+  /**
+   * Give feedback to an agent
+   */
+  async giveFeedback(
+    params: GiveFeedbackParams
+  ): Promise<EventTransactionResult<FeedbackGivenEvent>> {
+    const hash = await this.writer.write(
+      'giveFeedback',
+      this.giveFeedbackArgs(params)
+    );
+
+    return this.writer.eventResult<FeedbackGivenEvent>(hash, 'FeedbackGiven');
+  }
+
+  /**
+   * Simulate giving feedback to an agent
+   */
+  async simulateGiveFeedback(params: GiveFeedbackParams): Promise<void> {
+    await this.writer.simulate('giveFeedback', this.giveFeedbackArgs(params));
   }
 
   /**
    * Revoke previously given feedback
    */
-  async revokeFeedback(agentId: bigint, index: bigint): Promise<Hash> {
-    const wallet = this.requireWallet();
+  async revokeFeedback(
+    agentId: bigint,
+    index: bigint
+  ): Promise<EventTransactionResult<FeedbackRevokedEvent>> {
+    const hash = await this.writer.write('revokeFeedback', [agentId, index]);
 
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: AgentReputationRegistryABI,
-      functionName: 'revokeFeedback',
-      args: [agentId, index],
-    });
+    return this.writer.eventResult<FeedbackRevokedEvent>(
+      hash,
+      'FeedbackRevoked'
+    );
+  }
+
+  /**
+   * Simulate revoking previously given feedback
+   */
+  async simulateRevokeFeedback(agentId: bigint, index: bigint): Promise<void> {
+    await this.writer.simulate('revokeFeedback', [agentId, index]);
   }
 
   /**
@@ -346,16 +621,37 @@ export class ReputationRegistryClient {
     index: bigint,
     responseURI: string,
     responseHash: Hash
-  ): Promise<Hash> {
-    const wallet = this.requireWallet();
+  ): Promise<EventTransactionResult<ResponseAppendedEvent>> {
+    const hash = await this.writer.write('appendResponse', [
+      agentId,
+      client,
+      index,
+      responseURI,
+      responseHash,
+    ]);
 
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: AgentReputationRegistryABI,
-      functionName: 'appendResponse',
-      args: [agentId, client, index, responseURI, responseHash],
-    });
+    return this.writer.eventResult<ResponseAppendedEvent>(
+      hash,
+      'ResponseAppended'
+    );
+  }
+
+  /**
+   * Simulate appending a response to feedback
+   */
+  async simulateAppendResponse(
+    agentId: bigint,
+    client: Address,
+    index: bigint,
+    responseURI: string,
+    responseHash: Hash
+  ): Promise<void> {
+    await this.writer.simulate('appendResponse', [
+      agentId,
+      client,
+      index,
+      responseURI,
+      responseHash,
+    ]);
   }
 }
@@ -0,0 +1,446 @@
+import type {
+  Address,
+  Hash,
+  Hex,
+  PublicClient,
+  WalletClient,
+} from 'viem';
+import { decodeAbiParameters, zeroAddress } from 'viem';
+import type {
+  AuthorizedVerifier,
+  ContractEventLog,
+  EventTransactionResult,
+  LogQueryOptions,
+  RegistryClientOptions,
+  ReputationQueryReceivedEvent,
+  ResponderQuery,
+  TransactionResult,
+  VerificationQueryReceivedEvent,
+  VerifierAuthorizedEvent,
+} from '../types';
+import { withContractErrors } from '../errors';
+import { ContractWriter, createTransactionResult } from '../utils/transaction';
+import { getContractEventLogs } from '../utils/logs';
+import type { ReceiveCrossChainMessageEvent } from '../utils/teleporter';
+import { TeleporterMessengerABI } from '../utils/teleporter';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ABI
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const AgentRegistryResponderABI = [
+  // Read functions
+  {
+    type: 'function',
+    name: 'teleporter',
+    inputs: [],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'identityRegistry',
+    inputs: [],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'reputationRegistry',
+    inputs: [],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'authorizedVerifiers',
+    inputs: [{ name: 'chainId', type: 'bytes32' }],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'requiredGasLimit',
+    inputs: [],
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'owner',
+    inputs: [],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+  },
+  // Write functions
+  {
+    type: 'function',
+    name: 'authorizeVerifier',
+    inputs: [
+      { name: 'chainId', type: 'bytes32' },
+      { name: 'verifier', type: 'address' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'setRequiredGasLimit',
+    inputs: [{ name: 'gasLimit', type: 'uint256' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  // Errors
+  { type: 'error', name: 'OnlyTeleporter', inputs: [] },
+  {
+    type: 'error',
+    name: 'UnauthorizedVerifier',
+    inputs: [
+      { name: 'chainId', type: 'bytes32' },
+      { name: 'sender', type: 'address' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'OwnableUnauthorizedAccount',
+    inputs: [{ name: 'account', type: 'address' }],
+  },
+  // Events
+  {
+    type: 'event',
+    name: 'VerifierAuthorized',
+    inputs: [
+      { name: 'chainId', type: 'bytes32', indexed: true },
+      { name: 'verifier', type: 'address', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'VerificationQueryReceived',
+    inputs: [
+      { name: 'requestId', type: 'bytes32', indexed: true },
+      { name: 'agentId', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ReputationQueryReceived',
+    inputs: [
+      { name: 'requestId', type: 'bytes32', indexed: true },
+      { name: 'agentId', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * Leading fields shared by the verification and reputation query messages
+ */
+const QueryMessagePrefix = [
+  { name: 'msgType', type: 'uint8' },
+  { name: 'requestId', type: 'bytes32' },
+] as const;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CLIENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Registry responder client for home-chain cross-chain administration
+ */
+export class RegistryResponderClient {
+  private readonly address: Address;
+  private readonly publicClient: PublicClient;
+  private readonly writer: ContractWriter<typeof AgentRegistryResponderABI>;
+
+  constructor(
+    address: Address,
+    publicClient: PublicClient,
+    walletClient?: WalletClient,
+    options: RegistryClientOptions = {}
+  ) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.writer = new ContractWriter(
+      publicClient,
+      walletClient,
+      { address, abi: AgentRegistryResponderABI },
+      options.simulateWrites
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // READ FUNCTIONS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the verifier authorized for a chain (zero address if none)
+   */
+  async getAuthorizedVerifier(chainId: Hash): Promise<Address> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentRegistryResponderABI,
+        functionName: 'authorizedVerifiers',
+        args: [chainId],
+      })
+    ) as Promise<Address>;
+  }
+
+  /**
+   * Get the gas limit for response messages
+   */
+  async getRequiredGasLimit(): Promise<bigint> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentRegistryResponderABI,
+        functionName: 'requiredGasLimit',
+      })
+    ) as Promise<bigint>;
+  }
+
+  /**
+   * Get the Teleporter messenger the responder accepts messages from
+   */
+  async getTeleporter(): Promise<Address> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentRegistryResponderABI,
+        functionName: 'teleporter',
+      })
+    ) as Promise<Address>;
+  }
+
+  /**
+   * Get the responder owner (the only account allowed to administer it)
+   */
+  async getOwner(): Promise<Address> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentRegistryResponderABI,
+        functionName: 'owner',
+      })
+    ) as Promise<Address>;
+  }
+
+  /**
+   * List the verifiers currently authorized, one per chain
+   *
+   * Chains are discovered from `VerifierAuthorized` events in the block range
+   * and each is confirmed against current storage, so revoked (zeroed)
+   * authorizations are left out.
+   */
+  async listAuthorizedVerifiers(
+    options: LogQueryOptions = {}
+  ): Promise<AuthorizedVerifier[]> {
+    const logs = await this.getVerifierAuthorizations(options);
+
+    const latest = new Map<Hash, ContractEventLog<VerifierAuthorizedEvent>>();
+    for (const log of logs) {
+      latest.set(log.event.chainId, log);
+    }
+
+    const verifiers = await Promise.all(
+      [...latest.values()].map(async (log) => ({
+        chainId: log.event.chainId,
+        verifier: await this.getAuthorizedVerifier(log.event.chainId),
+        authorizedAtBlock: log.blockNumber,
+      }))
+    );
+    return verifiers.filter((entry) => entry.verifier !== zeroAddress);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // EVENT QUERIES
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the history of verifier authorizations, optionally for one chain
+   */
+  async getVerifierAuthorizations(
+    options: LogQueryOptions & { readonly chainId?: Hash } = {}
+  ): Promise<ContractEventLog<VerifierAuthorizedEvent>[]> {
+    return getContractEventLogs<VerifierAuthorizedEvent>(
+      this.publicClient,
+      {
+        address: this.address,
+        abi: AgentRegistryResponderABI,
+        eventName: 'VerifierAuthorized',
+        args: options.chainId ? { chainId: options.chainId } : undefined,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get the identity verification queries the responder answered
+   * @param options - Block range, and optionally a single agent
+   */
+  async getVerificationQueries(
+    options: LogQueryOptions & { readonly agentId?: bigint } = {}
+  ): Promise<ResponderQuery[]> {
+    const logs = await getContractEventLogs<VerificationQueryReceivedEvent>(
+      this.publicClient,
+      {
+        address: this.address,
+        abi: AgentRegistryResponderABI,
+        eventName: 'VerificationQueryReceived',
+      },
+      options
+    );
+
+    return this.toQueries('verification', logs, options);
+  }
+
+  /**
+   * Get the reputation queries the responder answered
+   * @param options - Block range, and optionally a single agent
+   */
+  async getReputationQueries(
+    options: LogQueryOptions & { readonly agentId?: bigint } = {}
+  ): Promise<ResponderQuery[]> {
+    const logs = await getContractEventLogs<ReputationQueryReceivedEvent>(
+      this.publicClient,
+      {
+        address: this.address,
+        abi: AgentRegistryResponderABI,
+        eventName: 'ReputationQueryReceived',
+      },
+      options
+    );
+
+    return this.toQueries('reputation', logs, options);
+  }
+
+  /**
+   * Attach the source chain and verifier from the Teleporter delivery that
+   * carried each query (agentId is not indexed, so it is filtered here)
+   */
+  private async toQueries(
+    kind: ResponderQuery['kind'],
+    logs: readonly ContractEventLog<{ requestId: Hash; agentId: bigint }>[],
+    options: LogQueryOptions & { readonly agentId?: bigint }
+  ): Promise<ResponderQuery[]> {
+    const matching = logs.filter(
+      (log) =>
+        options.agentId === undefined || log.event.agentId === options.agentId
+    );
+    if (matching.length === 0) {
+      return [];
+    }
+
+    const deliveries =
+      await getContractEventLogs<ReceiveCrossChainMessageEvent>(
+        this.publicClient,
+        {
+          address: await this.getTeleporter(),
+          abi: TeleporterMessengerABI,
+          eventName: 'ReceiveCrossChainMessage',
+        },
+        {
+          fromBlock: options.fromBlock ?? matching[0].blockNumber,
+          toBlock:
+            options.toBlock ?? matching[matching.length - 1].blockNumber,
+        }
+      );
+
+    // A relayer transaction can deliver several messages, so each delivery
+    // is matched by the request ID its payload carries
+    const sources = new Map<string, ReceiveCrossChainMessageEvent>();
+    for (const delivery of deliveries) {
+      const { destinationAddress, message } = delivery.event.message;
+      if (destinationAddress.toLowerCase() !== this.address.toLowerCase()) {
+        continue;
+      }
+      const requestId = decodeRequestId(message);
+      if (requestId) {
+        sources.set(`${delivery.transactionHash}:${requestId}`, delivery.event);
+      }
+    }
+
+    return matching.map((log) => {
+      const source = sources.get(
+        `${log.transactionHash}:${log.event.requestId}`
+      );
+      return {
+        kind,
+        requestId: log.event.requestId,
+        agentId: log.event.agentId,
+        sourceChain: source?.sourceBlockchainID,
+        verifier: source?.message.originSenderAddress,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      };
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // WRITE FUNCTIONS
+  // ═══════════════════════════════════════════════════════════════════════
+  //
+  // Writes are simulated with `eth_call` before sending unless the client was
+  // created with `simulateWrites: false`. Each write has a `simulate*` twin
+  // that only runs the simulation and returns the function's return value.
+
+  /**
+   * Authorize the verifier contract on a remote chain (owner only)
+   *
+   * Replaces any verifier previously authorized for that chain; pass the
+   * zero address to revoke.
+   */
+  async authorizeVerifier(
+    chainId: Hash,
+    verifier: Address
+  ): Promise<EventTransactionResult<VerifierAuthorizedEvent>> {
+    const hash = await this.writer.write('authorizeVerifier', [
+      chainId,
+      verifier,
+    ]);
+
+    return this.writer.eventResult<VerifierAuthorizedEvent>(
+      hash,
+      'VerifierAuthorized'
+    );
+  }
+
+  /**
+   * Simulate authorizing a remote verifier
+   */
+  async simulateAuthorizeVerifier(
+    chainId: Hash,
+    verifier: Address
+  ): Promise<void> {
+    await this.writer.simulate('authorizeVerifier', [chainId, verifier]);
+  }
+
+  /**
+   * Set the gas limit for response messages (owner only)
+   */
+  async setRequiredGasLimit(gasLimit: bigint): Promise<TransactionResult> {
+    const hash = await this.writer.write('setRequiredGasLimit', [gasLimit]);
+
+    return createTransactionResult(this.publicClient, hash);
+  }
+
+  /**
+   * Simulate setting the gas limit for response messages
+   */
+  async simulateSetRequiredGasLimit(gasLimit: bigint): Promise<void> {
+    await this.writer.simulate('setRequiredGasLimit', [gasLimit]);
+  }
+}
+
+/**
+ * Read the request ID from a query message, which starts with
+ * `(uint8 msgType, bytes32 requestId)`
+ */
+function decodeRequestId(message: Hex): Hash | null {
+  try {
+    const [, requestId] = decodeAbiParameters(QueryMessagePrefix, message);
+    return requestId;
+  } catch {
+    return null;
+  }
+}
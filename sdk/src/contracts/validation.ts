@@ -1,15 +1,49 @@
 import type {
   Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
   Hash,
   PublicClient,
   WalletClient,
 } from 'viem';
+import { bytesToHex, getAddress, hexToBigInt } from 'viem';
 import type {
+  BatchReadOptions,
+  BatchResult,
+  BuildValidationRequestParams,
+  BuiltValidationRequest,
+  ContractEventLog,
+  EventTransactionResult,
+  ListValidationRequestsOptions,
   Summary,
   ValidationRequest,
+  ValidationLifecycleStatus,
+  ValidationRequestDocument,
+  ValidationRequestEntry,
+  ValidationRequestLogOptions,
   ValidationRequestParams,
+  ValidationRequestedEvent,
   ValidationResponseParams,
+  ValidationRespondedEvent,
+  RegistryClientOptions,
+  ResolveDocumentsOptions,
+  UriResolver,
 } from '../types';
+import { ResponseCode } from '../types';
+import {
+  ContractRevertError,
+  isAgentSDKError,
+  withContractErrors,
+} from '../errors';
+import { ContractWriter } from '../utils/transaction';
+import { getContractEventLogs } from '../utils/logs';
+import { batchReads, mapBatchResult } from '../utils/multicall';
+import {
+  DefaultUriResolver,
+  encodeJsonDataURI,
+  resolveCommittedDocument,
+} from '../utils/uri';
+import { hashJsonDocument } from '../utils/hash';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // ABI
@@ -93,6 +127,35 @@ export const AgentValidationRegistryABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  // Errors
+  {
+    type: 'error',
+    name: 'RequestAlreadyExists',
+    inputs: [{ name: 'requestHash', type: 'bytes32' }],
+  },
+  {
+    type: 'error',
+    name: 'RequestNotFound',
+    inputs: [{ name: 'requestHash', type: 'bytes32' }],
+  },
+  {
+    type: 'error',
+    name: 'NotDesignatedValidator',
+    inputs: [
+      { name: 'requestHash', type: 'bytes32' },
+      { name: 'caller', type: 'address' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'RequestAlreadyResponded',
+    inputs: [{ name: 'requestHash', type: 'bytes32' }],
+  },
+  {
+    type: 'error',
+    name: 'AgentNotRegistered',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+  },
   // Events
   {
     type: 'event',
@@ -115,6 +178,48 @@ export const AgentValidationRegistryABI = [
   },
 ] as const;
 
+type ValidationWriteName = ContractFunctionName<
+  typeof AgentValidationRegistryABI,
+  'nonpayable'
+>;
+
+type ValidationWriteArgs<TName extends ValidationWriteName> = ContractFunctionArgs<
+  typeof AgentValidationRegistryABI,
+  'nonpayable',
+  TName
+>;
+
+/**
+ * `getValidationStatus` return value as decoded by viem
+ */
+interface ValidationRequestTuple {
+  readonly requester: Address;
+  readonly validator: Address;
+  readonly agentId: bigint;
+  readonly requestURI: string;
+  readonly requestHash: Hash;
+  readonly response: number;
+  readonly responseURI: string;
+  readonly responseHash: Hash;
+  readonly tag: string;
+  readonly timestamp: bigint;
+}
+
+function toValidationRequest(req: ValidationRequestTuple): ValidationRequest {
+  return {
+    requester: req.requester,
+    validator: req.validator,
+    agentId: req.agentId,
+    requestURI: req.requestURI,
+    requestHash: req.requestHash,
+    response: req.response,
+    responseURI: req.responseURI,
+    responseHash: req.responseHash,
+    tag: req.tag,
+    timestamp: req.timestamp,
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CLIENT
 // ═══════════════════════════════════════════════════════════════════════════
@@ -125,16 +230,24 @@ export const AgentValidationRegistryABI = [
 export class ValidationRegistryClient {
   private readonly address: Address;
   private readonly publicClient: PublicClient;
-  private readonly walletClient?: WalletClient;
+  private readonly writer: ContractWriter<typeof AgentValidationRegistryABI>;
+  private readonly uriResolver: UriResolver;
 
   constructor(
     address: Address,
     publicClient: PublicClient,
-    walletClient?: WalletClient
+    walletClient?: WalletClient,
+    options: RegistryClientOptions = {}
   ) {
     this.address = address;
     this.publicClient = publicClient;
-    this.walletClient = walletClient;
+    this.writer = new ContractWriter(
+      publicClient,
+      walletClient,
+      { address, abi: AgentValidationRegistryABI },
+      options.simulateWrites
+    );
+    this.uriResolver = options.uriResolver ?? new DefaultUriResolver();
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -143,39 +256,47 @@ export class ValidationRegistryClient {
 
   /**
    * Get the status of a validation request
+   *
+   * With `resolveDocuments`, the request and response documents are fetched
+   * too and checked against their committed hashes; a document that fails to
+   * resolve or does not match is returned as a failure.
    */
-  async getValidationStatus(requestHash: Hash): Promise<ValidationRequest> {
-    const result = await this.publicClient.readContract({
-      address: this.address,
-      abi: AgentValidationRegistryABI,
-      functionName: 'getValidationStatus',
-      args: [requestHash],
-    });
-
-    const req = result as {
-      requester: Address;
-      validator: Address;
-      agentId: bigint;
-      requestURI: string;
-      requestHash: Hash;
-      response: number;
-      responseURI: string;
-      responseHash: Hash;
-      tag: string;
-      timestamp: bigint;
-    };
+  async getValidationStatus(
+    requestHash: Hash,
+    options: ResolveDocumentsOptions = {}
+  ): Promise<ValidationRequest> {
+    const result = await withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentValidationRegistryABI,
+        functionName: 'getValidationStatus',
+        args: [requestHash],
+      })
+    );
+
+    const request = toValidationRequest(result as ValidationRequestTuple);
+    if (!options.resolveDocuments) {
+      return request;
+    }
 
+    const [content, response] = await Promise.all([
+      resolveCommittedDocument(
+        this.uriResolver,
+        request.requestURI,
+        request.requestHash
+      ),
+      resolveCommittedDocument(
+        this.uriResolver,
+        request.responseURI,
+        request.responseHash
+      ),
+    ]);
     return {
-      requester: req.requester,
-      validator: req.validator,
-      agentId: req.agentId,
-      requestURI: req.requestURI,
-      requestHash: req.requestHash,
-      response: req.response,
-      responseURI: req.responseURI,
-      responseHash: req.responseHash,
-      tag: req.tag,
-      timestamp: req.timestamp,
+      ...request,
+      ...(content.document ? { requestDocument: content.document } : {}),
+      ...(content.integrity ? { requestIntegrity: content.integrity } : {}),
+      ...(response.document ? { responseDocument: response.document } : {}),
+      ...(response.integrity ? { responseIntegrity: response.integrity } : {}),
     };
   }
 
@@ -187,12 +308,14 @@ export class ValidationRegistryClient {
     validators: readonly Address[] = [],
     tag = ''
   ): Promise<Summary> {
-    const result = await this.publicClient.readContract({
-      address: this.address,
-      abi: AgentValidationRegistryABI,
-      functionName: 'getSummary',
-      args: [agentId, validators as Address[], tag],
-    });
+    const result = await withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentValidationRegistryABI,
+        functionName: 'getSummary',
+        args: [agentId, validators as Address[], tag],
+      })
+    );
 
     const summary = result as {
       count: bigint;
@@ -211,68 +334,317 @@ export class ValidationRegistryClient {
    * Get all validation request hashes for an agent
    */
   async getAgentValidations(agentId: bigint): Promise<readonly Hash[]> {
-    return this.publicClient.readContract({
-      address: this.address,
-      abi: AgentValidationRegistryABI,
-      functionName: 'getAgentValidations',
-      args: [agentId],
-    }) as Promise<readonly Hash[]>;
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentValidationRegistryABI,
+        functionName: 'getAgentValidations',
+        args: [agentId],
+      })
+    ) as Promise<readonly Hash[]>;
   }
 
   // ═══════════════════════════════════════════════════════════════════════
-  // WRITE FUNCTIONS
+  // BATCHED READS
   // ═══════════════════════════════════════════════════════════════════════
 
-  private requireWallet(): WalletClient {
-    if (!this.walletClient) {
-      throw new Error('WalletClient required for write operations');
+  /**
+   * Get the status of many validation requests via Multicall3
+   * @returns One result per hash, in order; unknown hashes fail individually
+   */
+  async getValidationStatuses(
+    requestHashes: readonly Hash[],
+    options: BatchReadOptions = {}
+  ): Promise<BatchResult<ValidationRequest>[]> {
+    const results = await batchReads<ValidationRequestTuple>(
+      this.publicClient,
+      requestHashes.map((requestHash) => ({
+        address: this.address,
+        abi: AgentValidationRegistryABI,
+        functionName: 'getValidationStatus',
+        args: [requestHash],
+      })),
+      options
+    );
+
+    return results.map((result) =>
+      mapBatchResult(result, toValidationRequest)
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // LIFECYCLE
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * List an agent's validation requests with their lifecycle status and
+   * age, oldest first
+   *
+   * Pending requests older than `staleAfter` are flagged `stale`: their
+   * validator never answered. Combine `status: 'pending'` with `olderThan`
+   * for a queue of stuck validations.
+   *
+   * @example
+   * ```typescript
+   * const stuck = await sdk.validation.listRequests(42n, {
+   *   status: 'pending',
+   *   olderThan: 3600n,
+   * });
+   * ```
+   */
+  async listRequests(
+    agentId: bigint,
+    options: ListValidationRequestsOptions = {}
+  ): Promise<ValidationRequestEntry[]> {
+    const staleAfter = options.staleAfter ?? DEFAULT_STALE_AFTER;
+    const statuses =
+      options.status === undefined
+        ? undefined
+        : typeof options.status === 'string'
+          ? [options.status]
+          : options.status;
+    const validator = options.validator && getAddress(options.validator);
+
+    const [requestHashes, now] = await Promise.all([
+      this.getAgentValidations(agentId),
+      options.now ??
+        withContractErrors(this.publicClient.getBlock()).then(
+          (block) => block.timestamp
+        ),
+    ]);
+    const results = await this.getValidationStatuses(requestHashes, options);
+
+    const entries: ValidationRequestEntry[] = [];
+    for (const result of results) {
+      if (result.status === 'failure') {
+        throw result.error;
+      }
+
+      const request = result.result;
+      const status = toLifecycleStatus(request.response);
+      const age = now > request.timestamp ? now - request.timestamp : 0n;
+      if (statuses && !statuses.includes(status)) continue;
+      if (validator && getAddress(request.validator) !== validator) continue;
+      if (options.tag !== undefined && request.tag !== options.tag) continue;
+      if (options.olderThan !== undefined && age < options.olderThan) continue;
+
+      entries.push({
+        ...request,
+        status,
+        age,
+        stale: status === 'pending' && age >= staleAfter,
+      });
     }
-    if (!this.walletClient.account) {
-      throw new Error('WalletClient must have an account for signing');
+
+    return entries.sort((a, b) =>
+      a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // EVENT QUERIES
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get `ValidationRequested` logs, oldest first, optionally for one
+   * validator or agent
+   */
+  async getValidationRequests(
+    options: ValidationRequestLogOptions = {}
+  ): Promise<ContractEventLog<ValidationRequestedEvent>[]> {
+    return getContractEventLogs<ValidationRequestedEvent>(
+      this.publicClient,
+      {
+        address: this.address,
+        abi: AgentValidationRegistryABI,
+        eventName: 'ValidationRequested',
+        args: { validator: options.validator, agentId: options.agentId },
+      },
+      options
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // REQUEST BUILDING
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Build a validation request whose hash commits to its document
+   *
+   * The document (registry, agent, validator, nonce and payload) is hashed
+   * as canonical JSON, so the request document verifies against
+   * `requestHash` when read back. A hash already on-chain is never returned:
+   * a random nonce is redrawn, a fixed one fails.
+   *
+   * @throws ContractRevertError `RequestAlreadyExists` if a fixed nonce
+   * yields a hash already on-chain
+   *
+   * @example
+   * ```typescript
+   * const { params } = await sdk.validation.buildValidationRequest({
+   *   agentId: 42n,
+   *   validator: '0x...',
+   *   payload: { task: 'audit', commit: 'abc123' },
+   * });
+   * await sdk.validation.validationRequest(params);
+   * ```
+   */
+  async buildValidationRequest(
+    params: BuildValidationRequestParams
+  ): Promise<BuiltValidationRequest> {
+    for (let attempt = 1; ; attempt++) {
+      const document: ValidationRequestDocument = {
+        validationRegistry: getAddress(this.address),
+        agentId: params.agentId.toString(),
+        validator: getAddress(params.validator),
+        nonce: (params.nonce ?? randomNonce()).toString(),
+        payload: params.payload,
+      };
+      const requestHash = hashJsonDocument(document);
+
+      if (!(await this.requestExists(requestHash))) {
+        const requestURI = params.upload
+          ? await params.upload(document)
+          : encodeJsonDataURI(document);
+        return {
+          document,
+          requestHash,
+          params: {
+            validator: document.validator,
+            agentId: params.agentId,
+            requestURI,
+            requestHash,
+          },
+        };
+      }
+      // A random 256-bit nonce colliding twice means something else is wrong
+      if (params.nonce !== undefined || attempt >= 3) {
+        throw new ContractRevertError('RequestAlreadyExists', { requestHash });
+      }
+    }
+  }
+
+  private async requestExists(requestHash: Hash): Promise<boolean> {
+    try {
+      await this.getValidationStatus(requestHash);
+      return true;
+    } catch (error) {
+      if (isAgentSDKError(error, 'RequestNotFound')) return false;
+      throw error;
     }
-    return this.walletClient;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // WRITE FUNCTIONS
+  // ═══════════════════════════════════════════════════════════════════════
+  //
+  // Writes are simulated with `eth_call` before sending unless the client was
+  // created with `simulateWrites: false`. Each write has a `simulate*` twin
+  // that only runs the simulation and returns the function's return value.
+
+  private validationRequestArgs(
+    params: ValidationRequestParams
+  ): ValidationWriteArgs<'validationRequest'> {
+    return [
+      params.validator,
+      params.agentId,
+      params.requestURI ?? '',
+      params.requestHash,
+    ];
+  }
+
+  private validationResponseArgs(
+    params: ValidationResponseParams
+  ): ValidationWriteArgs<'validationResponse'> {
+    return [
+      params.requestHash,
+      params.response,
+      params.responseURI ?? '',
+      params.responseHash ?? ('0x' + '0'.repeat(64)) as Hash,
+      params.tag ?? '',
+    ];
   }
 
   /**
    * Create a validation request
    */
-  async validationRequest(params: ValidationRequestParams): Promise<Hash> {
-    const wallet = this.requireWallet();
-
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: AgentValidationRegistryABI,
-      functionName: 'validationRequest',
-      args: [
-        params.validator,
-        params.agentId,
-        params.requestURI ?? '',
-        params.requestHash,
-      ],
-    });
+  async validationRequest(
+    params: ValidationRequestParams
+  ): Promise<EventTransactionResult<ValidationRequestedEvent>> {
+    const hash = await this.writer.write(
+      'validationRequest',
+      this.validationRequestArgs(params)
+    );
+
+    return this.writer.eventResult<ValidationRequestedEvent>(
+      hash,
+      'ValidationRequested'
+    );
+  }
+
+  /**
+   * Simulate creating a validation request
+   */
+  async simulateValidationRequest(
+    params: ValidationRequestParams
+  ): Promise<void> {
+    await this.writer.simulate(
+      'validationRequest',
+      this.validationRequestArgs(params)
+    );
   }
 
   /**
    * Respond to a validation request (validator only)
    */
-  async validationResponse(params: ValidationResponseParams): Promise<Hash> {
-    const wallet = this.requireWallet();
-
-    return wallet.writeContract({
-      chain: wallet.chain,
-      account: wallet.account!,
-      address: this.address,
-      abi: AgentValidationRegistryABI,
-      functionName: 'validationResponse',
-      args: [
-        params.requestHash,
-        params.response,
-        params.responseURI ?? '',
-        params.responseHash ?? ('0x' + '0'.repeat(64)) as Hash,
-        params.tag ?? '',
-      ],
-    });
+  async validationResponse(
+    params: ValidationResponseParams
+  ): Promise<EventTransactionResult<ValidationRespondedEvent>> {
+    const hash = await this.writer.write(
+      'validationResponse',
+      this.validationResponseArgs(params)
+    );
+
+    return this.writer.eventResult<ValidationRespondedEvent>(
+      hash,
+      'ValidationResponded'
+    );
   }
+
+  /**
+   * Simulate responding to a validation request
+   */
+  async simulateValidationResponse(
+    params: ValidationResponseParams
+  ): Promise<void> {
+    await this.writer.simulate(
+      'validationResponse',
+      this.validationResponseArgs(params)
+    );
+  }
+}
+
+/**
+ * Seconds a request may stay pending before it is stale
+ */
+const DEFAULT_STALE_AFTER = 24n * 60n * 60n;
+
+/**
+ * Codes outside `ResponseCode` are treated as inconclusive
+ */
+function toLifecycleStatus(response: number): ValidationLifecycleStatus {
+  switch (response) {
+    case ResponseCode.PENDING:
+      return 'pending';
+    case ResponseCode.APPROVED:
+      return 'approved';
+    case ResponseCode.REJECTED:
+      return 'rejected';
+    default:
+      return 'inconclusive';
+  }
+}
+
+function randomNonce(): bigint {
+  return hexToBigInt(bytesToHex(crypto.getRandomValues(new Uint8Array(32))));
 }
@@ -0,0 +1,601 @@
+import type {
+  Address,
+  ContractFunctionName,
+  Hash,
+  Hex,
+  PublicClient,
+  WalletClient,
+} from 'viem';
+import { encodeFunctionData } from 'viem';
+import type {
+  IdentityProof,
+  IdentityVerifiedEvent,
+  RegistryClientOptions,
+  ReputationProof,
+  ReputationVerifiedEvent,
+  ValidationProof,
+  ValidationVerifiedEvent,
+  VerifyProofResult,
+  WarpProofTransaction,
+} from '../types';
+import { ProofType } from '../types';
+import { withContractErrors } from '../errors';
+import {
+  ContractWriter,
+  createTransactionResult,
+  getEventArgs,
+} from '../utils/transaction';
+import { createWarpAccessList } from '../utils/warp';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ABI
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const AgentWarpVerifierABI = [
+  // Read functions
+  {
+    type: 'function',
+    name: 'homeChainId',
+    inputs: [],
+    outputs: [{ type: 'bytes32' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'homeEmitter',
+    inputs: [],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'PROOF_IDENTITY',
+    inputs: [],
+    outputs: [{ type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'PROOF_REPUTATION',
+    inputs: [],
+    outputs: [{ type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'PROOF_VALIDATION',
+    inputs: [],
+    outputs: [{ type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'EXPECTED_SCHEMA',
+    inputs: [],
+    outputs: [{ type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'identityProofs',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'endpoint', type: 'string' },
+      { name: 'provenAt', type: 'uint256' },
+      { name: 'verified', type: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'reputationProofs',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [
+      { name: 'feedbackCount', type: 'uint64' },
+      { name: 'aggregateScore', type: 'int128' },
+      { name: 'decimals', type: 'uint8' },
+      { name: 'provenAt', type: 'uint256' },
+      { name: 'verified', type: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'validationProofs',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'validator', type: 'address' },
+    ],
+    outputs: [
+      { name: 'response', type: 'uint8' },
+      { name: 'tag', type: 'string' },
+      { name: 'provenAt', type: 'uint256' },
+      { name: 'verified', type: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'isVerified',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [{ type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'verifiedOwnerOf',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'verifiedEndpoint',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [{ type: 'string' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'proofAge',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [{ type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'meetsReputationThreshold',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'minScore', type: 'int128' },
+    ],
+    outputs: [{ type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'isValidatedBy',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'validator', type: 'address' },
+    ],
+    outputs: [{ type: 'bool' }],
+    stateMutability: 'view',
+  },
+  // Write functions
+  {
+    type: 'function',
+    name: 'verifyIdentity',
+    inputs: [{ name: 'index', type: 'uint32' }],
+    outputs: [{ name: 'agentId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'verifyReputation',
+    inputs: [{ name: 'index', type: 'uint32' }],
+    outputs: [{ name: 'agentId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'verifyValidation',
+    inputs: [{ name: 'index', type: 'uint32' }],
+    outputs: [{ name: 'agentId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  // Errors
+  { type: 'error', name: 'InvalidWarpMessage', inputs: [] },
+  {
+    type: 'error',
+    name: 'WrongSourceChain',
+    inputs: [
+      { name: 'expected', type: 'bytes32' },
+      { name: 'actual', type: 'bytes32' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'WrongEmitter',
+    inputs: [
+      { name: 'expected', type: 'address' },
+      { name: 'actual', type: 'address' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'UnexpectedSchema',
+    inputs: [
+      { name: 'expected', type: 'uint8' },
+      { name: 'actual', type: 'uint8' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'UnexpectedProofType',
+    inputs: [
+      { name: 'expected', type: 'uint8' },
+      { name: 'actual', type: 'uint8' },
+    ],
+  },
+  // Events
+  {
+    type: 'event',
+    name: 'IdentityVerified',
+    inputs: [
+      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'owner', type: 'address', indexed: false },
+      { name: 'endpoint', type: 'string', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ReputationVerified',
+    inputs: [
+      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'feedbackCount', type: 'uint64', indexed: false },
+      { name: 'score', type: 'int128', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ValidationVerified',
+    inputs: [
+      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'validator', type: 'address', indexed: true },
+      { name: 'response', type: 'uint8', indexed: false },
+    ],
+  },
+] as const;
+
+type WarpVerifyName = ContractFunctionName<
+  typeof AgentWarpVerifierABI,
+  'nonpayable'
+>;
+
+/**
+ * The `verify*` function that caches each proof type
+ */
+const VERIFY_FUNCTIONS = {
+  [ProofType.IDENTITY]: 'verifyIdentity',
+  [ProofType.REPUTATION]: 'verifyReputation',
+  [ProofType.VALIDATION]: 'verifyValidation',
+} as const satisfies Record<ProofType, WarpVerifyName>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CLIENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Warp verifier client for reading agent proofs cached on a remote L1
+ *
+ * Proofs are emitted on the home chain by AgentProofEmitter and cached here
+ * once a relayer submits the signed Warp message, so every read is local.
+ * The `verify*` writes attach that message as a Warp predicate, which only
+ * Avalanche L1s with the Warp precompile enabled will accept.
+ */
+export class WarpVerifierClient {
+  private readonly address: Address;
+  private readonly publicClient: PublicClient;
+  private readonly writer: ContractWriter<typeof AgentWarpVerifierABI>;
+
+  constructor(
+    address: Address,
+    publicClient: PublicClient,
+    walletClient?: WalletClient,
+    options: RegistryClientOptions = {}
+  ) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.writer = new ContractWriter(
+      publicClient,
+      walletClient,
+      { address, abi: AgentWarpVerifierABI },
+      options.simulateWrites
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // READ FUNCTIONS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the blockchain ID of the chain hosting the registries
+   */
+  async getHomeChainId(): Promise<Hash> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentWarpVerifierABI,
+        functionName: 'homeChainId',
+      })
+    ) as Promise<Hash>;
+  }
+
+  /**
+   * Get the AgentProofEmitter address on the home chain
+   */
+  async getHomeEmitter(): Promise<Address> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentWarpVerifierABI,
+        functionName: 'homeEmitter',
+      })
+    ) as Promise<Address>;
+  }
+
+  /**
+   * Get the cached identity proof for an agent
+   */
+  async getIdentityProof(agentId: bigint): Promise<IdentityProof> {
+    const [owner, endpoint, provenAt, verified] = (await withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentWarpVerifierABI,
+        functionName: 'identityProofs',
+        args: [agentId],
+      })
+    )) as readonly [Address, string, bigint, boolean];
+
+    return { owner, endpoint, provenAt, verified };
+  }
+
+  /**
+   * Get the cached reputation proof for an agent
+   */
+  async getReputationProof(agentId: bigint): Promise<ReputationProof> {
+    const [feedbackCount, aggregateScore, decimals, provenAt, verified] =
+      (await withContractErrors(
+        this.publicClient.readContract({
+          address: this.address,
+          abi: AgentWarpVerifierABI,
+          functionName: 'reputationProofs',
+          args: [agentId],
+        })
+      )) as readonly [bigint, bigint, number, bigint, boolean];
+
+    return { feedbackCount, aggregateScore, decimals, provenAt, verified };
+  }
+
+  /**
+   * Get the cached validation proof for an agent from a specific validator
+   */
+  async getValidationProof(
+    agentId: bigint,
+    validator: Address
+  ): Promise<ValidationProof> {
+    const [response, tag, provenAt, verified] = (await withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentWarpVerifierABI,
+        functionName: 'validationProofs',
+        args: [agentId, validator],
+      })
+    )) as readonly [number, string, bigint, boolean];
+
+    return { response, tag, provenAt, verified };
+  }
+
+  /**
+   * Check if an agent's identity has been verified on this chain
+   */
+  async isVerified(agentId: bigint): Promise<boolean> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentWarpVerifierABI,
+        functionName: 'isVerified',
+        args: [agentId],
+      })
+    ) as Promise<boolean>;
+  }
+
+  /**
+   * Get the owner recorded in an agent's identity proof
+   */
+  async verifiedOwnerOf(agentId: bigint): Promise<Address> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentWarpVerifierABI,
+        functionName: 'verifiedOwnerOf',
+        args: [agentId],
+      })
+    ) as Promise<Address>;
+  }
+
+  /**
+   * Get the endpoint recorded in an agent's identity proof
+   */
+  async verifiedEndpoint(agentId: bigint): Promise<string> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentWarpVerifierABI,
+        functionName: 'verifiedEndpoint',
+        args: [agentId],
+      })
+    ) as Promise<string>;
+  }
+
+  /**
+   * Get the age of an agent's identity proof in seconds (0 if not verified)
+   */
+  async proofAge(agentId: bigint): Promise<bigint> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentWarpVerifierABI,
+        functionName: 'proofAge',
+        args: [agentId],
+      })
+    ) as Promise<bigint>;
+  }
+
+  /**
+   * Check if an agent's verified reputation is at least `minScore`
+   */
+  async meetsReputationThreshold(
+    agentId: bigint,
+    minScore: bigint
+  ): Promise<boolean> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentWarpVerifierABI,
+        functionName: 'meetsReputationThreshold',
+        args: [agentId, minScore],
+      })
+    ) as Promise<boolean>;
+  }
+
+  /**
+   * Check if an agent holds an approved validation proof from a validator
+   */
+  async isValidatedBy(agentId: bigint, validator: Address): Promise<boolean> {
+    return withContractErrors(
+      this.publicClient.readContract({
+        address: this.address,
+        abi: AgentWarpVerifierABI,
+        functionName: 'isValidatedBy',
+        args: [agentId, validator],
+      })
+    ) as Promise<boolean>;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // WRITE FUNCTIONS
+  // ═══════════════════════════════════════════════════════════════════════
+  //
+  // Writes are simulated with `eth_call` before sending unless the client was
+  // created with `simulateWrites: false`. Each write has a `simulate*` twin
+  // that only runs the simulation and returns the function's return value.
+  //
+  // The signed message is the only Warp predicate in the access list, so the
+  // contract is always called with index 0.
+
+  /**
+   * Build the transaction that submits a signed Warp proof to this verifier
+   *
+   * Use this to send through other tooling; the `verify*` methods send it
+   * with the client's wallet.
+   */
+  buildVerifyTransaction(
+    proofType: ProofType,
+    signedMessage: Hex
+  ): WarpProofTransaction {
+    return {
+      to: this.address,
+      data: encodeFunctionData({
+        abi: AgentWarpVerifierABI,
+        functionName: VERIFY_FUNCTIONS[proofType],
+        args: [0],
+      }),
+      accessList: createWarpAccessList([signedMessage]),
+    };
+  }
+
+  private verifyResult<TEvent extends { readonly agentId: bigint }>(
+    hash: Hash,
+    eventName: string
+  ): VerifyProofResult<TEvent> {
+    return createTransactionResult(this.publicClient, hash, (receipt) => {
+      const event = getEventArgs<TEvent>(receipt, {
+        abi: AgentWarpVerifierABI,
+        address: this.address,
+        eventName,
+      });
+      return { agentId: event.agentId, event };
+    });
+  }
+
+  private async write(proofType: ProofType, signedMessage: Hex): Promise<Hash> {
+    return this.writer.write(
+      VERIFY_FUNCTIONS[proofType],
+      [0],
+      createWarpAccessList([signedMessage])
+    );
+  }
+
+  private async simulate(
+    proofType: ProofType,
+    signedMessage: Hex
+  ): Promise<bigint> {
+    return (await this.writer.simulate(
+      VERIFY_FUNCTIONS[proofType],
+      [0],
+      createWarpAccessList([signedMessage])
+    )) as bigint;
+  }
+
+  /**
+   * Submit a signed identity proof and cache it on this chain
+   * @param signedMessage - Serialized signed Warp message from the home chain
+   * @returns Result whose receipt carries the verified agentId
+   */
+  async verifyIdentity(
+    signedMessage: Hex
+  ): Promise<VerifyProofResult<IdentityVerifiedEvent>> {
+    const hash = await this.write(ProofType.IDENTITY, signedMessage);
+
+    return this.verifyResult<IdentityVerifiedEvent>(hash, 'IdentityVerified');
+  }
+
+  /**
+   * Simulate submitting a signed identity proof
+   * @returns The agentId the proof is for
+   */
+  async simulateVerifyIdentity(signedMessage: Hex): Promise<bigint> {
+    return this.simulate(ProofType.IDENTITY, signedMessage);
+  }
+
+  /**
+   * Submit a signed reputation proof and cache it on this chain
+   * @param signedMessage - Serialized signed Warp message from the home chain
+   * @returns Result whose receipt carries the verified agentId
+   */
+  async verifyReputation(
+    signedMessage: Hex
+  ): Promise<VerifyProofResult<ReputationVerifiedEvent>> {
+    const hash = await this.write(ProofType.REPUTATION, signedMessage);
+
+    return this.verifyResult<ReputationVerifiedEvent>(
+      hash,
+      'ReputationVerified'
+    );
+  }
+
+  /**
+   * Simulate submitting a signed reputation proof
+   * @returns The agentId the proof is for
+   */
+  async simulateVerifyReputation(signedMessage: Hex): Promise<bigint> {
+    return this.simulate(ProofType.REPUTATION, signedMessage);
+  }
+
+  /**
+   * Submit a signed validation proof and cache it on this chain
+   * @param signedMessage - Serialized signed Warp message from the home chain
+   * @returns Result whose receipt carries the verified agentId
+   */
+  async verifyValidation(
+    signedMessage: Hex
+  ): Promise<VerifyProofResult<ValidationVerifiedEvent>> {
+    const hash = await this.write(ProofType.VALIDATION, signedMessage);
+
+    return this.verifyResult<ValidationVerifiedEvent>(
+      hash,
+      'ValidationVerified'
+    );
+  }
+
+  /**
+   * Simulate submitting a signed validation proof
+   * @returns The agentId the proof is for
+   */
+  async simulateVerifyValidation(signedMessage: Hex): Promise<bigint> {
+    return this.simulate(ProofType.VALIDATION, signedMessage);
+  }
+}
@@ -0,0 +1,397 @@
+import type { Address, Hash } from 'viem';
+import { BaseError, ContractFunctionRevertedError } from 'viem';
+import type { RegistrationIssue, ResolvedDocument } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONTRACT ERRORS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Decoded arguments for every custom error declared by the registry contracts
+ *
+ * Keys match the Solidity error names, values use the ABI parameter names.
+ */
+export interface ContractErrorArgs {
+  // Identity registry
+  readonly AgentNotFound: { readonly agentId: bigint };
+  readonly NotAgentOwner: { readonly agentId: bigint; readonly caller?: Address };
+  readonly InvalidSignature: Record<string, never>;
+  readonly SignatureExpired: Record<string, never>;
+  readonly WalletAlreadySet: { readonly agentId: bigint };
+  readonly WalletNotSet: { readonly agentId: bigint };
+  readonly ERC721NonexistentToken: { readonly tokenId: bigint };
+  // Reputation registry
+  readonly AgentNotRegistered: { readonly agentId: bigint };
+  readonly NotFeedbackOwner: { readonly agentId: bigint; readonly index: bigint };
+  readonly FeedbackAlreadyRevoked: { readonly agentId: bigint; readonly index: bigint };
+  readonly FeedbackNotFound: {
+    readonly agentId: bigint;
+    readonly client: Address;
+    readonly index: bigint;
+  };
+  // Validation registry
+  readonly RequestAlreadyExists: { readonly requestHash: Hash };
+  readonly RequestNotFound: { readonly requestHash?: Hash; readonly requestId?: Hash };
+  readonly NotDesignatedValidator: { readonly requestHash: Hash; readonly caller: Address };
+  readonly RequestAlreadyResponded: { readonly requestHash: Hash };
+  // Cross-chain verifier
+  readonly UnknownChain: { readonly chainId: Hash };
+  readonly OnlyTeleporter: Record<string, never>;
+  readonly UnknownRegistry: { readonly chainId: Hash; readonly sender: Address };
+  readonly OwnableUnauthorizedAccount: { readonly account: Address };
+  // Registry responder
+  readonly UnauthorizedVerifier: { readonly chainId: Hash; readonly sender: Address };
+  // Warp verifier
+  readonly InvalidWarpMessage: Record<string, never>;
+  readonly WrongSourceChain: { readonly expected: Hash; readonly actual: Hash };
+  readonly WrongEmitter: { readonly expected: Address; readonly actual: Address };
+  readonly UnexpectedSchema: { readonly expected: number; readonly actual: number };
+  readonly UnexpectedProofType: { readonly expected: number; readonly actual: number };
+  // Proof emitter
+  readonly AgentDoesNotExist: { readonly agentId: bigint };
+}
+
+export type ContractErrorCode = keyof ContractErrorArgs;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ERROR CLASSES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Error codes that are not contract custom errors
+ */
+export type SDKErrorCode =
+  | 'WalletRequired'
+  | 'InvalidArgument'
+  | 'EventNotFound'
+  | 'TransactionReverted'
+  | 'CallReverted'
+  | 'RequestFailed'
+  | 'Timeout'
+  | 'InvalidRegistration'
+  | 'DocumentTooLarge'
+  | 'HashMismatch';
+
+export type AgentSDKErrorCode = ContractErrorCode | SDKErrorCode;
+
+/**
+ * Base class for every error thrown by SDK client methods
+ *
+ * Branch on `code` rather than on the message:
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await sdk.identity.setAgentWallet(params);
+ * } catch (err) {
+ *   if (isAgentSDKError(err, 'WalletAlreadySet')) {
+ *     console.log(`Agent ${err.args.agentId} already has a wallet`);
+ *   }
+ * }
+ * ```
+ */
+export class AgentSDKError extends Error {
+  readonly code: AgentSDKErrorCode;
+
+  constructor(
+    code: AgentSDKErrorCode,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'AgentSDKError';
+    this.code = code;
+  }
+}
+
+/**
+ * A contract call reverted with one of the registries' custom errors
+ */
+export class ContractRevertError<
+  TCode extends ContractErrorCode = ContractErrorCode,
+> extends AgentSDKError {
+  declare readonly code: TCode;
+  readonly args: ContractErrorArgs[TCode];
+
+  constructor(
+    code: TCode,
+    args: ContractErrorArgs[TCode],
+    options?: { cause?: unknown }
+  ) {
+    const formatted = Object.entries(args)
+      .map(([name, value]) => `${name}: ${String(value)}`)
+      .join(', ');
+    super(code, `Contract reverted with ${code}(${formatted})`, options);
+    this.name = 'ContractRevertError';
+    this.args = args;
+  }
+}
+
+/**
+ * A Warp proof payload that AgentWarpVerifier would reject
+ *
+ * Uses the verifier's error code and args, so the same check covers a payload
+ * rejected off-chain and a `verify*` call that reverted.
+ */
+export class ProofPayloadError<
+  TCode extends 'UnexpectedSchema' | 'UnexpectedProofType',
+> extends ContractRevertError<TCode> {
+  constructor(code: TCode, args: ContractErrorArgs[TCode]) {
+    super(code, args);
+    this.name = 'ProofPayloadError';
+    this.message = `Proof payload rejected with ${code}(expected: ${args.expected}, actual: ${args.actual})`;
+  }
+}
+
+/**
+ * A contract call reverted without a recognised custom error
+ * (require strings, panics, or errors from contracts outside the ABI)
+ */
+export class CallRevertedError extends AgentSDKError {
+  declare readonly code: 'CallReverted';
+  readonly reason?: string;
+
+  constructor(reason: string | undefined, options?: { cause?: unknown }) {
+    super(
+      'CallReverted',
+      reason ? `Contract reverted: ${reason}` : 'Contract reverted',
+      options
+    );
+    this.name = 'CallRevertedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * A write was attempted without a wallet client or account
+ */
+export class WalletRequiredError extends AgentSDKError {
+  declare readonly code: 'WalletRequired';
+
+  constructor(message: string) {
+    super('WalletRequired', message);
+    this.name = 'WalletRequiredError';
+  }
+}
+
+/**
+ * An argument was rejected before any call was made
+ */
+export class InvalidArgumentError extends AgentSDKError {
+  declare readonly code: 'InvalidArgument';
+  readonly argument: string;
+
+  constructor(argument: string, message: string) {
+    super('InvalidArgument', `Invalid ${argument}: ${message}`);
+    this.name = 'InvalidArgumentError';
+    this.argument = argument;
+  }
+}
+
+/**
+ * A mined transaction did not revert but lacks the expected event
+ */
+export class EventNotFoundError extends AgentSDKError {
+  declare readonly code: 'EventNotFound';
+  readonly eventName: string;
+  readonly transactionHash: Hash;
+
+  constructor(eventName: string, transactionHash: Hash) {
+    super(
+      'EventNotFound',
+      `${eventName} event not found in transaction ${transactionHash}`
+    );
+    this.name = 'EventNotFoundError';
+    this.eventName = eventName;
+    this.transactionHash = transactionHash;
+  }
+}
+
+/**
+ * A submitted transaction was mined with a reverted status
+ */
+export class TransactionRevertedError extends AgentSDKError {
+  declare readonly code: 'TransactionReverted';
+  readonly transactionHash: Hash;
+
+  constructor(transactionHash: Hash) {
+    super('TransactionReverted', `Transaction reverted: ${transactionHash}`);
+    this.name = 'TransactionRevertedError';
+    this.transactionHash = transactionHash;
+  }
+}
+
+/**
+ * A cross-chain request got no response within the wait timeout
+ *
+ * The request may still be answered; pass `requestId` and `fromBlock` to
+ * the matching `waitFor*` method to resume waiting.
+ */
+export class CrossChainTimeoutError extends AgentSDKError {
+  declare readonly code: 'Timeout';
+  readonly requestId: Hash;
+  readonly eventName: string;
+  readonly timeout: number;
+  /**
+   * Block to resume watching from
+   */
+  readonly fromBlock?: bigint;
+
+  constructor(
+    requestId: Hash,
+    eventName: string,
+    timeout: number,
+    fromBlock?: bigint
+  ) {
+    super(
+      'Timeout',
+      `No ${eventName} for request ${requestId} within ${timeout}ms`
+    );
+    this.name = 'CrossChainTimeoutError';
+    this.requestId = requestId;
+    this.eventName = eventName;
+    this.timeout = timeout;
+    this.fromBlock = fromBlock;
+  }
+}
+
+/**
+ * A registration file failed validation, or does not point back to the
+ * agent it was resolved from
+ */
+export class RegistrationFileError extends AgentSDKError {
+  declare readonly code: 'InvalidRegistration';
+  readonly issues: readonly RegistrationIssue[];
+
+  constructor(issues: readonly RegistrationIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+    super(
+      'InvalidRegistration',
+      `Invalid registration file: ${first.path}: ${first.message}${more}`
+    );
+    this.name = 'RegistrationFileError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * A URI could not be fetched, timed out, or returned too large a document
+ */
+export class UriResolutionError extends AgentSDKError {
+  declare readonly code: 'RequestFailed' | 'Timeout' | 'DocumentTooLarge';
+  readonly uri: string;
+
+  constructor(
+    code: 'RequestFailed' | 'Timeout' | 'DocumentTooLarge',
+    uri: string,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(code, `Failed to resolve ${uri}: ${message}`, options);
+    this.name = 'UriResolutionError';
+    this.uri = uri;
+  }
+}
+
+/**
+ * A fetched document does not match the hash committed on-chain
+ *
+ * The document is kept for inspection; do not act on its content.
+ */
+export class ContentHashMismatchError extends AgentSDKError {
+  declare readonly code: 'HashMismatch';
+  readonly uri: string;
+  readonly committedHash: Hash;
+  readonly document: ResolvedDocument;
+
+  constructor(committedHash: Hash, document: ResolvedDocument) {
+    super(
+      'HashMismatch',
+      `Content at ${document.uri} does not match hash ${committedHash}`
+    );
+    this.name = 'ContentHashMismatchError';
+    this.uri = document.uri;
+    this.committedHash = committedHash;
+    this.document = document;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DECODING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Check whether an error is an AgentSDKError, optionally with a given code
+ */
+export function isAgentSDKError<TCode extends ContractErrorCode>(
+  error: unknown,
+  code: TCode
+): error is ContractRevertError<TCode>;
+export function isAgentSDKError<TCode extends SDKErrorCode>(
+  error: unknown,
+  code: TCode
+): error is AgentSDKError & { readonly code: TCode };
+export function isAgentSDKError(error: unknown): error is AgentSDKError;
+export function isAgentSDKError(
+  error: unknown,
+  code?: AgentSDKErrorCode
+): boolean {
+  return (
+    error instanceof AgentSDKError && (code === undefined || error.code === code)
+  );
+}
+
+/**
+ * Convert any error raised by viem into an AgentSDKError
+ *
+ * Custom errors are decoded by viem against the ABI used for the call, so
+ * they only surface here when that ABI declares them.
+ */
+export function toAgentSDKError(error: unknown): AgentSDKError {
+  if (error instanceof AgentSDKError) {
+    return error;
+  }
+
+  if (error instanceof BaseError) {
+    const revert = error.walk(
+      (e) => e instanceof ContractFunctionRevertedError
+    ) as ContractFunctionRevertedError | null;
+
+    if (revert) {
+      // viem also reports require strings and panics as Error/Panic items
+      const name = revert.data?.errorName;
+      if (revert.data && name !== 'Error' && name !== 'Panic') {
+        const { abiItem, args: values } = revert.data;
+        const inputs = abiItem.type === 'error' ? abiItem.inputs : [];
+        const args = Object.fromEntries(
+          inputs.map((input, i) => [input.name ?? String(i), values?.[i]])
+        );
+        return new ContractRevertError(
+          name as ContractErrorCode,
+          args as ContractErrorArgs[ContractErrorCode],
+          { cause: error }
+        );
+      }
+      return new CallRevertedError(revert.reason, { cause: error });
+    }
+
+    return new AgentSDKError('RequestFailed', error.shortMessage, {
+      cause: error,
+    });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new AgentSDKError('RequestFailed', message, { cause: error });
+}
+
+/**
+ * Await a contract call, rethrowing failures as AgentSDKError
+ */
+export async function withContractErrors<T>(call: Promise<T>): Promise<T> {
+  try {
+    return await call;
+  } catch (error) {
+    throw toAgentSDKError(error);
+  }
+}
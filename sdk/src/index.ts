@@ -12,13 +12,40 @@ export type {
   // Core types
   MetadataEntry,
   Feedback,
+  FeedbackKey,
+  FeedbackEntry,
+  FeedbackPage,
+  FeedbackReadFailure,
   ValidationRequest,
+  ValidationLifecycleStatus,
+  ValidationRequestEntry,
   Summary,
   AgentVerification,
+  AgentRecord,
+  AgentProfile,
+  ProfileField,
+  MetadataValue,
+  ReputationQueryResult,
+  AuthorizedVerifier,
+  ResponderQuery,
+  IdentityProof,
+  ReputationProof,
+  ValidationProof,
+  // Warp messages
+  UnsignedWarpMessage,
+  AddressedCall,
+  BitSetSignature,
+  SignedWarpMessage,
+  IdentityProofPayload,
+  ReputationProofPayload,
+  ValidationProofPayload,
+  ProofPayload,
+  WarpProofTransaction,
   // Configuration
   ContractAddresses,
   ChainConfig,
   SDKConfig,
+  RegistryClientOptions,
   // Parameters
   RegisterAgentParams,
   GiveFeedbackParams,
@@ -27,14 +54,120 @@ export type {
   WalletLinkParams,
   VerifyAgentParams,
   QueryReputationParams,
+  LogQueryOptions,
+  ListFeedbackOptions,
+  ValidationRequestLogOptions,
+  ListValidationRequestsOptions,
+  BuildValidationRequestParams,
+  ValidationRequestDocument,
+  BuiltValidationRequest,
+  AgentProfileOptions,
+  BatchReadOptions,
+  // Batch results
+  BatchResult,
+  WaitForEventOptions,
+  WaitForResponseOptions,
   // Results
   TransactionResult,
   TransactionReceipt,
+  EventReceipt,
+  EventTransactionResult,
+  RegisterAgentReceipt,
   RegisterAgentResult,
+  CrossChainRequestReceipt,
   VerifyAgentResult,
+  QueryReputationResult,
+  ProofEmittedReceipt,
+  EmitProofResult,
+  VerifyProofReceipt,
+  VerifyProofResult,
+  // Events
+  ContractEventLog,
+  AgentRegisteredEvent,
+  AgentURIUpdatedEvent,
+  MetadataUpdatedEvent,
+  AgentWalletSetEvent,
+  AgentWalletUnsetEvent,
+  EndpointUpdatedEvent,
+  FeedbackGivenEvent,
+  FeedbackRevokedEvent,
+  ResponseAppendedEvent,
+  ValidationRequestedEvent,
+  ValidationRespondedEvent,
+  VerificationRequestedEvent,
+  VerificationReceivedEvent,
+  ReputationQueriedEvent,
+  ReputationReceivedEvent,
+  RegistryConfiguredEvent,
+  IdentityVerifiedEvent,
+  ReputationVerifiedEvent,
+  ValidationVerifiedEvent,
+  ProofEmittedEvent,
+  VerifierAuthorizedEvent,
+  VerificationQueryReceivedEvent,
+  ReputationQueryReceivedEvent,
+  // Indexer
+  IndexedContract,
+  IndexedBlock,
+  IndexedEvent,
+  IndexedEventFilter,
+  IndexerCommit,
+  IndexerStore,
+  // Registration file
+  TrustModel,
+  RegistrationEndpointName,
+  RegistrationEndpoint,
+  RegistrationEntry,
+  RegistrationFile,
+  RegistrationIssue,
+  RegisteredAgent,
+  // Watch
+  WatchEventOptions,
+  WatchAgentRegisteredOptions,
+  WatchFeedbackOptions,
+  WatchValidationRequestedOptions,
+  WatchValidationRespondedOptions,
+  WatchAgentWalletSetOptions,
+  Unsubscribe,
+  // URI resolution
+  IntegrityStatus,
+  ResolveDocumentsOptions,
+  ResolvedDocument,
+  FetchedDocument,
+  UriFetchContext,
+  UriHandler,
+  UriResolver,
 } from './types';
 
-export { ResponseCode } from './types';
+export { ResponseCode, ProofType } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ERRORS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type {
+  AgentSDKErrorCode,
+  ContractErrorArgs,
+  ContractErrorCode,
+  SDKErrorCode,
+} from './errors';
+
+export {
+  AgentSDKError,
+  ContractRevertError,
+  ProofPayloadError,
+  CallRevertedError,
+  WalletRequiredError,
+  InvalidArgumentError,
+  EventNotFoundError,
+  TransactionRevertedError,
+  CrossChainTimeoutError,
+  RegistrationFileError,
+  UriResolutionError,
+  ContentHashMismatchError,
+  isAgentSDKError,
+  toAgentSDKError,
+} from './errors';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CHAIN UTILITIES
@@ -63,6 +196,164 @@ export {
   prepareWalletLink,
 } from './utils/eip712';
 
+// ═══════════════════════════════════════════════════════════════════════════
+// BATCH UTILITIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type { ContractRead } from './utils/multicall';
+
+export { batchReads, mapBatchResult } from './utils/multicall';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRATION FILE UTILITIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type { RegistrationValidationOptions } from './utils/registration';
+
+export {
+  REGISTRATION_FILE_TYPE,
+  TRUST_MODELS,
+  RegistrationFileBuilder,
+  formatAgentRegistry,
+  parseAgentRegistry,
+  getRegistrationFileIssues,
+  isValidRegistrationFile,
+  parseRegistrationFile,
+  validateRegistrationMatch,
+  encodeRegistrationDataURI,
+} from './utils/registration';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// URI RESOLUTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type { DefaultUriResolverOptions } from './utils/uri';
+
+export {
+  DefaultUriResolver,
+  createHttpHandler,
+  createIpfsHandler,
+  createArweaveHandler,
+  createDataHandler,
+  isPublicHost,
+  encodeJsonDataURI,
+} from './utils/uri';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONTENT HASH UTILITIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  canonicalizeJson,
+  hashDocument,
+  hashJsonDocument,
+  verifyDocumentHash,
+} from './utils/hash';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENDPOINT UTILITIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export { isValidEndpoint, validateEndpoint } from './utils/endpoint';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WARP UTILITIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type { SentWarpMessage } from './utils/warp';
+
+export {
+  WARP_PRECOMPILE_ADDRESS,
+  WarpPrecompileABI,
+  parseUnsignedWarpMessage,
+  parseAddressedCall,
+  getWarpMessageId,
+  packWarpPredicate,
+  unpackWarpPredicate,
+  createWarpAccessList,
+  findWarpMessage,
+  getSentWarpMessages,
+  serializeUnsignedWarpMessage,
+  serializeAddressedCall,
+  createUnsignedWarpMessage,
+  serializeSignedWarpMessage,
+  parseSignedWarpMessage,
+  encodeSignerBitSet,
+  decodeSignerBitSet,
+  PROOF_SCHEMA_VERSION,
+  encodeProofPayload,
+  decodeProofPayload,
+} from './utils/warp';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TELEPORTER UTILITIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type {
+  TeleporterMessage,
+  SendCrossChainMessageEvent,
+  ReceiveCrossChainMessageEvent,
+} from './utils/teleporter';
+
+export { TeleporterMessengerABI } from './utils/teleporter';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WATCH
+// ═══════════════════════════════════════════════════════════════════════════
+
+export { AgentEventWatcher } from './watch/watcher';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATOR WORKER
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type {
+  ValidationEvaluation,
+  ValidatorOutcome,
+  ValidatorCheckpoint,
+  ValidatorWorkerConfig,
+} from './validator/worker';
+
+export { ValidatorWorker } from './validator/worker';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REPUTATION SCORING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type {
+  ScoredEntry,
+  ScoringContext,
+  ScoringStrategy,
+  ScoreStep,
+  ReputationScore,
+  ReputationScorerConfig,
+} from './reputation/scorer';
+
+export {
+  ReputationScorer,
+  excludeRevoked,
+  normalizeDecimals,
+  timeDecay,
+  trimOutliers,
+  bayesianSmoothing,
+} from './reputation/scorer';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INDEXER
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type { AgentIndexerConfig } from './indexer/indexer';
+export type {
+  SqliteDatabase,
+  SqliteStatement,
+  SqliteValue,
+  SqliteIndexerStoreOptions,
+} from './indexer/sqlite';
+
+export { AgentIndexer } from './indexer/indexer';
+export { MemoryIndexerStore } from './indexer/memory';
+export { SqliteIndexerStore } from './indexer/sqlite';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CONTRACT CLIENTS (for advanced usage)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -86,3 +377,12 @@ export {
   CrossChainVerifierClient,
   CrossChainAgentVerifierABI,
 } from './contracts/crosschain';
+
+export {
+  RegistryResponderClient,
+  AgentRegistryResponderABI,
+} from './contracts/responder';
+
+export { WarpVerifierClient, AgentWarpVerifierABI } from './contracts/warp';
+
+export { ProofEmitterClient, AgentProofEmitterABI } from './contracts/emitter';
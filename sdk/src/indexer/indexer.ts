@@ -0,0 +1,314 @@
+import type { Abi, AbiEvent, Address, Hash, PublicClient } from 'viem';
+import { toEventSelector } from 'viem';
+import type {
+  ContractAddresses,
+  IndexedBlock,
+  IndexedContract,
+  IndexedEvent,
+  IndexedEventFilter,
+  IndexerStore,
+} from '../types';
+import type { AgentSDKError } from '../errors';
+import { toAgentSDKError, withContractErrors } from '../errors';
+import { AgentIdentityRegistryABI } from '../contracts/identity';
+import { AgentReputationRegistryABI } from '../contracts/reputation';
+import { AgentValidationRegistryABI } from '../contracts/validation';
+import { CrossChainAgentVerifierABI } from '../contracts/crosschain';
+import { AgentRegistryResponderABI } from '../contracts/responder';
+import { AgentWarpVerifierABI } from '../contracts/warp';
+import { AgentProofEmitterABI } from '../contracts/emitter';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+const CONTRACT_ABIS: Record<IndexedContract, Abi> = {
+  identityRegistry: AgentIdentityRegistryABI,
+  reputationRegistry: AgentReputationRegistryABI,
+  validationRegistry: AgentValidationRegistryABI,
+  crossChainVerifier: CrossChainAgentVerifierABI,
+  registryResponder: AgentRegistryResponderABI,
+  warpVerifier: AgentWarpVerifierABI,
+  proofEmitter: AgentProofEmitterABI,
+};
+
+export interface AgentIndexerConfig {
+  /**
+   * Contracts to index; every configured address is included
+   */
+  readonly contracts: ContractAddresses;
+  readonly store: IndexerStore;
+  /**
+   * First block to index, usually the registries' deployment block
+   * (default: 0)
+   */
+  readonly fromBlock?: bigint;
+  /**
+   * Blocks per `eth_getLogs` request during backfill (default: 2000)
+   */
+  readonly chunkSize?: bigint;
+  /**
+   * Blocks to stay behind the head (default: 0)
+   */
+  readonly confirmations?: bigint;
+  /**
+   * How far back block hashes are kept to find where a reorg forked
+   * (default: 128)
+   */
+  readonly reorgDepth?: bigint;
+  /**
+   * Milliseconds between head checks while following (default: the client's
+   * polling interval)
+   */
+  readonly pollingInterval?: number;
+  /**
+   * Called after a reorg was rolled back to `block` (null: re-index all)
+   */
+  readonly onReorg?: (block: IndexedBlock | null) => void;
+  /**
+   * Called with failures while following; `sync()` rejects instead
+   */
+  readonly onError?: (error: AgentSDKError) => void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INDEXER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Indexes registry events into a pluggable store
+ *
+ * Backfills from `fromBlock` in chunks, then follows new blocks. Before each
+ * sync the last indexed block hash is checked against the chain; on a
+ * mismatch the store is rolled back to the newest block that still matches.
+ *
+ * @example
+ * ```typescript
+ * const indexer = sdk.createIndexer({
+ *   store: new MemoryIndexerStore(),
+ *   fromBlock: 1_000_000n,
+ * });
+ *
+ * await indexer.sync();
+ * indexer.start();
+ *
+ * const feedback = await indexer.getEvents({
+ *   eventName: 'FeedbackGiven',
+ *   agentId: 42n,
+ * });
+ * ```
+ */
+export class AgentIndexer {
+  public readonly store: IndexerStore;
+
+  private readonly publicClient: PublicClient;
+  private readonly contracts: ReadonlyMap<Address, IndexedContract>;
+  private readonly events: readonly AbiEvent[];
+  private readonly fromBlock: bigint;
+  private readonly chunkSize: bigint;
+  private readonly confirmations: bigint;
+  private readonly reorgDepth: bigint;
+  private readonly pollingInterval?: number;
+  private readonly onReorg?: (block: IndexedBlock | null) => void;
+  private readonly onError?: (error: AgentSDKError) => void;
+
+  private queue: Promise<unknown> = Promise.resolve();
+  private syncQueued = false;
+  private unwatch?: () => void;
+
+  constructor(publicClient: PublicClient, config: AgentIndexerConfig) {
+    this.publicClient = publicClient;
+    this.store = config.store;
+    this.fromBlock = config.fromBlock ?? 0n;
+    this.chunkSize = config.chunkSize ?? 2000n;
+    this.confirmations = config.confirmations ?? 0n;
+    this.reorgDepth = config.reorgDepth ?? 128n;
+    this.pollingInterval = config.pollingInterval;
+    this.onReorg = config.onReorg;
+    this.onError = config.onError;
+
+    const contracts = new Map<Address, IndexedContract>();
+    const events = new Map<Hash, AbiEvent>();
+    for (const [key, address] of Object.entries(config.contracts)) {
+      if (!address) continue;
+      const contract = key as IndexedContract;
+      contracts.set(address.toLowerCase() as Address, contract);
+      for (const item of CONTRACT_ABIS[contract]) {
+        if (item.type === 'event') {
+          events.set(toEventSelector(item), item);
+        }
+      }
+    }
+    this.contracts = contracts;
+    this.events = [...events.values()];
+  }
+
+  /**
+   * Whether the indexer is following new blocks
+   */
+  get isFollowing(): boolean {
+    return this.unwatch !== undefined;
+  }
+
+  /**
+   * Index up to the current head (minus confirmations)
+   *
+   * Calls are queued, so a sync never overlaps another.
+   *
+   * @returns The last indexed block, or null if there was nothing to index
+   */
+  async sync(): Promise<IndexedBlock | null> {
+    const run = this.queue.then(() => this.runSync());
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Follow new blocks until `stop()` is called
+   *
+   * Failures are reported to `onError` and retried on the next block.
+   */
+  start(): void {
+    if (this.unwatch) return;
+
+    this.unwatch = this.publicClient.watchBlockNumber({
+      emitOnBegin: true,
+      pollingInterval: this.pollingInterval,
+      onBlockNumber: () => this.scheduleSync(),
+      onError: (error) => this.onError?.(toAgentSDKError(error)),
+    });
+  }
+
+  /**
+   * Stop following new blocks (a sync in progress still completes)
+   */
+  stop(): void {
+    this.unwatch?.();
+    this.unwatch = undefined;
+  }
+
+  /**
+   * Read indexed events from the store
+   */
+  async getEvents(filter?: IndexedEventFilter): Promise<IndexedEvent[]> {
+    return this.store.getEvents(filter);
+  }
+
+  /**
+   * Queue a sync unless one is already waiting, since it will cover every
+   * block seen until it starts
+   */
+  private scheduleSync(): void {
+    if (this.syncQueued) return;
+    this.syncQueued = true;
+
+    const run = this.queue.then(() => {
+      this.syncQueued = false;
+      return this.runSync();
+    });
+    this.queue = run.catch(() => undefined);
+    run.catch((error) => this.onError?.(toAgentSDKError(error)));
+  }
+
+  private async runSync(): Promise<IndexedBlock | null> {
+    let cursor = await this.store.getCursor();
+    if (cursor) {
+      cursor = await this.reconcile(cursor);
+    }
+
+    const head =
+      (await withContractErrors(this.publicClient.getBlockNumber())) -
+      this.confirmations;
+    let from = cursor ? cursor.number + 1n : this.fromBlock;
+
+    while (from <= head) {
+      const end = from + this.chunkSize - 1n;
+      const to = end < head ? end : head;
+      const hash = await this.getBlockHash(to);
+      const logs = await withContractErrors(
+        this.publicClient.getLogs({
+          address: [...this.contracts.keys()],
+          events: this.events,
+          fromBlock: from,
+          toBlock: to,
+          strict: true,
+        })
+      );
+      // A reorg of any block in the chunk also replaces its last block, so
+      // an unchanged hash means the logs came from the same fork
+      if ((await this.getBlockHash(to)) !== hash) {
+        continue;
+      }
+
+      const events = logs.map((log) => this.toIndexedEvent(log));
+      cursor = { number: to, hash: hash! };
+      await this.store.commit({
+        events,
+        blocks: events.map((event) => ({
+          number: event.blockNumber,
+          hash: event.blockHash,
+        })),
+        cursor,
+        pruneBelow: to - this.reorgDepth,
+      });
+      from = to + 1n;
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Roll the store back to the newest tracked block still on the chain
+   */
+  private async reconcile(cursor: IndexedBlock): Promise<IndexedBlock | null> {
+    if ((await this.getBlockHash(cursor.number)) === cursor.hash) {
+      return cursor;
+    }
+
+    const tracked = await this.store.getBlocks();
+    let ancestor: IndexedBlock | null = null;
+    for (const block of tracked.reverse()) {
+      if (block.number >= cursor.number) continue;
+      if ((await this.getBlockHash(block.number)) === block.hash) {
+        ancestor = block;
+        break;
+      }
+    }
+
+    await this.store.rollback(ancestor);
+    this.onReorg?.(ancestor);
+    return ancestor;
+  }
+
+  private async getBlockHash(blockNumber: bigint): Promise<Hash | null> {
+    const block = await withContractErrors(
+      this.publicClient.getBlock({ blockNumber })
+    );
+    return block.hash;
+  }
+
+  private toIndexedEvent(log: {
+    readonly address: Address;
+    readonly eventName?: string;
+    readonly args?: unknown;
+    readonly blockNumber: bigint | null;
+    readonly blockHash: Hash | null;
+    readonly transactionHash: Hash | null;
+    readonly logIndex: number | null;
+  }): IndexedEvent {
+    const args = { ...(log.args as Record<string, unknown>) };
+    const agentId = args.agentId;
+
+    return {
+      contract: this.contracts.get(log.address.toLowerCase() as Address)!,
+      address: log.address,
+      eventName: log.eventName!,
+      args,
+      ...(typeof agentId === 'bigint' ? { agentId } : {}),
+      blockNumber: log.blockNumber!,
+      blockHash: log.blockHash!,
+      transactionHash: log.transactionHash!,
+      logIndex: log.logIndex!,
+    };
+  }
+}
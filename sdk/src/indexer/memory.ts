@@ -0,0 +1,71 @@
+import type {
+  IndexedBlock,
+  IndexedEvent,
+  IndexedEventFilter,
+  IndexerCommit,
+  IndexerStore,
+} from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// IN-MEMORY STORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Indexer store that keeps everything in process memory
+ *
+ * Suited to tests, scripts and short-lived services; the index is rebuilt
+ * from `fromBlock` on every start.
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private cursor: IndexedBlock | null = null;
+  private blocks: IndexedBlock[] = [];
+  private events: IndexedEvent[] = [];
+
+  async getCursor(): Promise<IndexedBlock | null> {
+    return this.cursor;
+  }
+
+  async getBlocks(): Promise<IndexedBlock[]> {
+    return [...this.blocks];
+  }
+
+  async commit(batch: IndexerCommit): Promise<void> {
+    const pruneBelow = batch.pruneBelow ?? 0n;
+    const blocks = new Map<bigint, IndexedBlock>();
+    for (const block of [...this.blocks, ...batch.blocks, batch.cursor]) {
+      if (block.number >= pruneBelow) {
+        blocks.set(block.number, block);
+      }
+    }
+
+    this.blocks = [...blocks.values()].sort((a, b) =>
+      a.number < b.number ? -1 : 1
+    );
+    this.events.push(...batch.events);
+    this.cursor = batch.cursor;
+  }
+
+  async rollback(block: IndexedBlock | null): Promise<void> {
+    const keep = block ? block.number : -1n;
+    this.blocks = this.blocks.filter((b) => b.number <= keep);
+    this.events = this.events.filter((e) => e.blockNumber <= keep);
+    this.cursor = block;
+  }
+
+  async getEvents(filter: IndexedEventFilter = {}): Promise<IndexedEvent[]> {
+    const names =
+      filter.eventName === undefined
+        ? undefined
+        : new Set<string>([filter.eventName].flat());
+
+    return this.events.filter(
+      (event) =>
+        (filter.contract === undefined || event.contract === filter.contract) &&
+        (names === undefined || names.has(event.eventName)) &&
+        (filter.agentId === undefined || event.agentId === filter.agentId) &&
+        (filter.fromBlock === undefined ||
+          event.blockNumber >= filter.fromBlock) &&
+        (filter.toBlock === undefined || event.blockNumber <= filter.toBlock)
+    );
+  }
+}
@@ -0,0 +1,267 @@
+import type { Address, Hash } from 'viem';
+import type {
+  IndexedBlock,
+  IndexedContract,
+  IndexedEvent,
+  IndexedEventFilter,
+  IndexerCommit,
+  IndexerStore,
+} from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DRIVER INTERFACE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type SqliteValue = string | number | bigint | null;
+
+export interface SqliteStatement {
+  run(...params: SqliteValue[]): unknown;
+  all(...params: SqliteValue[]): unknown[];
+}
+
+/**
+ * The subset of a synchronous SQLite driver the store uses
+ *
+ * Matches `better-sqlite3` and Node's built-in `node:sqlite` DatabaseSync,
+ * so the SDK does not depend on either.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteIndexerStoreOptions {
+  /**
+   * Prefix for the store's tables, to share a database (default: `agent_`)
+   */
+  readonly tablePrefix?: string;
+}
+
+interface EventRow {
+  readonly contract: string;
+  readonly address: string;
+  readonly event_name: string;
+  readonly args: string;
+  readonly agent_id: string | null;
+  readonly block_number: number | bigint;
+  readonly block_hash: string;
+  readonly transaction_hash: string;
+  readonly log_index: number | bigint;
+}
+
+interface BlockRow {
+  readonly number: number | bigint;
+  readonly hash: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SQLITE STORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Indexer store backed by a SQLite database
+ *
+ * Creates its tables on construction. Event arguments are stored as JSON,
+ * with bigints tagged so they round-trip.
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ *
+ * const store = new SqliteIndexerStore(new Database('agents.db'));
+ * const indexer = sdk.createIndexer({ store, fromBlock: 1_000_000n });
+ * ```
+ */
+export class SqliteIndexerStore implements IndexerStore {
+  private readonly db: SqliteDatabase;
+  private readonly events: string;
+  private readonly blocks: string;
+  private readonly cursor: string;
+
+  constructor(db: SqliteDatabase, options: SqliteIndexerStoreOptions = {}) {
+    const prefix = options.tablePrefix ?? 'agent_';
+    this.db = db;
+    this.events = `${prefix}events`;
+    this.blocks = `${prefix}blocks`;
+    this.cursor = `${prefix}cursor`;
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.events} (
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        block_hash TEXT NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        contract TEXT NOT NULL,
+        address TEXT NOT NULL,
+        event_name TEXT NOT NULL,
+        agent_id TEXT,
+        args TEXT NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+      );
+      CREATE INDEX IF NOT EXISTS ${this.events}_agent
+        ON ${this.events} (agent_id, event_name);
+      CREATE TABLE IF NOT EXISTS ${this.blocks} (
+        number INTEGER PRIMARY KEY,
+        hash TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS ${this.cursor} (
+        id INTEGER PRIMARY KEY CHECK (id = 0),
+        number INTEGER NOT NULL,
+        hash TEXT NOT NULL
+      );
+    `);
+  }
+
+  async getCursor(): Promise<IndexedBlock | null> {
+    const [row] = this.db
+      .prepare(`SELECT number, hash FROM ${this.cursor} WHERE id = 0`)
+      .all() as BlockRow[];
+    return row ? toBlock(row) : null;
+  }
+
+  async getBlocks(): Promise<IndexedBlock[]> {
+    const rows = this.db
+      .prepare(`SELECT number, hash FROM ${this.blocks} ORDER BY number`)
+      .all() as BlockRow[];
+    return rows.map(toBlock);
+  }
+
+  async commit(batch: IndexerCommit): Promise<void> {
+    this.transaction(() => {
+      const insertEvent = this.db.prepare(
+        `INSERT OR REPLACE INTO ${this.events} (block_number, log_index,
+          block_hash, transaction_hash, contract, address, event_name,
+          agent_id, args) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      for (const event of batch.events) {
+        insertEvent.run(
+          Number(event.blockNumber),
+          event.logIndex,
+          event.blockHash,
+          event.transactionHash,
+          event.contract,
+          event.address,
+          event.eventName,
+          event.agentId === undefined ? null : event.agentId.toString(),
+          JSON.stringify(event.args, encodeBigInt)
+        );
+      }
+
+      const insertBlock = this.db.prepare(
+        `INSERT OR REPLACE INTO ${this.blocks} (number, hash) VALUES (?, ?)`
+      );
+      for (const block of [...batch.blocks, batch.cursor]) {
+        insertBlock.run(Number(block.number), block.hash);
+      }
+      if (batch.pruneBelow !== undefined) {
+        this.db
+          .prepare(`DELETE FROM ${this.blocks} WHERE number < ?`)
+          .run(Number(batch.pruneBelow));
+      }
+
+      this.setCursor(batch.cursor);
+    });
+  }
+
+  async rollback(block: IndexedBlock | null): Promise<void> {
+    const keep = block ? Number(block.number) : -1;
+
+    this.transaction(() => {
+      this.db
+        .prepare(`DELETE FROM ${this.events} WHERE block_number > ?`)
+        .run(keep);
+      this.db
+        .prepare(`DELETE FROM ${this.blocks} WHERE number > ?`)
+        .run(keep);
+      this.setCursor(block);
+    });
+  }
+
+  async getEvents(filter: IndexedEventFilter = {}): Promise<IndexedEvent[]> {
+    const clauses: string[] = [];
+    const params: SqliteValue[] = [];
+
+    if (filter.contract !== undefined) {
+      clauses.push('contract = ?');
+      params.push(filter.contract);
+    }
+    if (filter.eventName !== undefined) {
+      const names = [filter.eventName].flat();
+      clauses.push(`event_name IN (${names.map(() => '?').join(', ')})`);
+      params.push(...names);
+    }
+    if (filter.agentId !== undefined) {
+      clauses.push('agent_id = ?');
+      params.push(filter.agentId.toString());
+    }
+    if (filter.fromBlock !== undefined) {
+      clauses.push('block_number >= ?');
+      params.push(Number(filter.fromBlock));
+    }
+    if (filter.toBlock !== undefined) {
+      clauses.push('block_number <= ?');
+      params.push(Number(filter.toBlock));
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM ${this.events} ${where}
+          ORDER BY block_number, log_index`
+      )
+      .all(...params) as EventRow[];
+
+    return rows.map((row) => ({
+      contract: row.contract as IndexedContract,
+      address: row.address as Address,
+      eventName: row.event_name,
+      args: JSON.parse(row.args, decodeBigInt),
+      ...(row.agent_id === null ? {} : { agentId: BigInt(row.agent_id) }),
+      blockNumber: BigInt(row.block_number),
+      blockHash: row.block_hash as Hash,
+      transactionHash: row.transaction_hash as Hash,
+      logIndex: Number(row.log_index),
+    }));
+  }
+
+  private setCursor(block: IndexedBlock | null): void {
+    this.db.prepare(`DELETE FROM ${this.cursor}`).run();
+    if (block) {
+      this.db
+        .prepare(
+          `INSERT INTO ${this.cursor} (id, number, hash) VALUES (0, ?, ?)`
+        )
+        .run(Number(block.number), block.hash);
+    }
+  }
+
+  private transaction(body: () => void): void {
+    this.db.exec('BEGIN');
+    try {
+      body();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+function toBlock(row: BlockRow): IndexedBlock {
+  return { number: BigInt(row.number), hash: row.hash as Hash };
+}
+
+function encodeBigInt(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? { $bigint: value.toString() } : value;
+}
+
+function decodeBigInt(_key: string, value: unknown): unknown {
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as { $bigint?: unknown }).$bigint === 'string'
+  ) {
+    return BigInt((value as { $bigint: string }).$bigint);
+  }
+  return value;
+}
@@ -0,0 +1,301 @@
+import type { Feedback } from '../types';
+import { InvalidArgumentError } from '../errors';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * One value in the weighted mean a score is computed from
+ */
+export interface ScoredEntry {
+  readonly value: number;
+  readonly weight: number;
+  /**
+   * The feedback this entry came from; absent for synthetic entries such as
+   * a Bayesian prior
+   */
+  readonly feedback?: Feedback;
+}
+
+export interface ScoringContext {
+  /**
+   * Unix time ages are measured from
+   */
+  readonly now: bigint;
+}
+
+/**
+ * One step of a scoring pipeline
+ */
+export interface ScoringStrategy {
+  readonly name: string;
+  /**
+   * Transform the entries and describe what changed
+   */
+  apply(
+    entries: readonly ScoredEntry[],
+    context: ScoringContext
+  ): { entries: readonly ScoredEntry[]; detail: string };
+}
+
+/**
+ * What a strategy did, in the order strategies ran
+ */
+export interface ScoreStep {
+  readonly strategy: string;
+  readonly detail: string;
+}
+
+export interface ReputationScore {
+  /**
+   * Weighted mean of the remaining entries, or null if none carry weight
+   */
+  readonly score: number | null;
+  /**
+   * Feedback entries that count towards the score
+   */
+  readonly count: number;
+  readonly totalWeight: number;
+  readonly explanation: readonly ScoreStep[];
+  /**
+   * Scores per tag, when the scorer was created with `breakdownBy`
+   */
+  readonly breakdown?: Readonly<Record<string, ReputationScore>>;
+}
+
+export interface ReputationScorerConfig {
+  /**
+   * Steps run in order before averaging (default: `excludeRevoked()` then
+   * `normalizeDecimals()`)
+   */
+  readonly strategies?: readonly ScoringStrategy[];
+  /**
+   * Also score each value of this tag separately
+   */
+  readonly breakdownBy?: 'tag1' | 'tag2';
+  /**
+   * Unix time ages are measured from (default: the current time)
+   */
+  readonly now?: bigint;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STRATEGIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Drop revoked feedback (the on-chain `getSummary` does the same)
+ */
+export function excludeRevoked(): ScoringStrategy {
+  return {
+    name: 'excludeRevoked',
+    apply(entries) {
+      const kept = entries.filter((entry) => !entry.feedback?.revoked);
+      return {
+        entries: kept,
+        detail: `dropped ${entries.length - kept.length} revoked`,
+      };
+    },
+  };
+}
+
+/**
+ * Divide each value by 10^valueDecimals, so values given with different
+ * precision are comparable (the on-chain `getSummary` sums them raw)
+ */
+export function normalizeDecimals(): ScoringStrategy {
+  return {
+    name: 'normalizeDecimals',
+    apply(entries) {
+      let scaled = 0;
+      const normalized = entries.map((entry) => {
+        const decimals = entry.feedback?.valueDecimals ?? 0;
+        if (decimals === 0) return entry;
+        scaled++;
+        return { ...entry, value: entry.value / 10 ** decimals };
+      });
+      return { entries: normalized, detail: `rescaled ${scaled} values` };
+    },
+  };
+}
+
+/**
+ * Halve an entry's weight for every `halfLife` seconds of its age
+ */
+export function timeDecay(options: { halfLife: bigint }): ScoringStrategy {
+  const { halfLife } = options;
+  if (halfLife <= 0n) {
+    throw new InvalidArgumentError('halfLife', 'must be positive');
+  }
+
+  return {
+    name: 'timeDecay',
+    apply(entries, { now }) {
+      const decayed = entries.map((entry) => {
+        if (!entry.feedback) return entry;
+        const { timestamp } = entry.feedback;
+        const age = now > timestamp ? now - timestamp : 0n;
+        const factor = 0.5 ** (Number(age) / Number(halfLife));
+        return { ...entry, weight: entry.weight * factor };
+      });
+      return {
+        entries: decayed,
+        detail: `weights halved every ${halfLife}s of age`,
+      };
+    },
+  };
+}
+
+/**
+ * Drop the lowest and highest `fraction` of entries by value
+ */
+export function trimOutliers(
+  options: { fraction?: number } = {}
+): ScoringStrategy {
+  const fraction = options.fraction ?? 0.1;
+  if (!(fraction >= 0 && fraction < 0.5)) {
+    throw new InvalidArgumentError('fraction', 'must be in [0, 0.5)');
+  }
+
+  return {
+    name: 'trimOutliers',
+    apply(entries) {
+      const trim = Math.floor(entries.length * fraction);
+      const sorted = [...entries].sort((a, b) => a.value - b.value);
+      const kept = sorted.slice(trim, sorted.length - trim);
+      return {
+        entries: kept,
+        detail: `dropped ${trim} lowest and ${trim} highest values`,
+      };
+    },
+  };
+}
+
+/**
+ * Add a prior worth `weight` entries of value `mean`, pulling scores built
+ * on little feedback towards it
+ *
+ * Run it last, so the prior is not decayed or trimmed.
+ */
+export function bayesianSmoothing(options: {
+  mean: number;
+  weight: number;
+}): ScoringStrategy {
+  const { mean, weight } = options;
+  if (!Number.isFinite(mean)) {
+    throw new InvalidArgumentError('mean', 'must be a finite number');
+  }
+  if (!(weight > 0)) {
+    throw new InvalidArgumentError('weight', 'must be positive');
+  }
+
+  return {
+    name: 'bayesianSmoothing',
+    apply(entries) {
+      return {
+        entries: [...entries, { value: mean, weight }],
+        detail: `added prior ${mean} with weight ${weight}`,
+      };
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCORER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Scores an agent from its feedback with a pipeline of strategies
+ *
+ * Each feedback entry starts with its raw value and a weight of 1; the
+ * strategies then drop, rescale or reweight entries in order, and the score
+ * is the weighted mean of what remains. Every step is recorded in the
+ * result's `explanation`.
+ *
+ * @example
+ * ```typescript
+ * const scorer = new ReputationScorer({
+ *   strategies: [
+ *     excludeRevoked(),
+ *     normalizeDecimals(),
+ *     trimOutliers({ fraction: 0.1 }),
+ *     timeDecay({ halfLife: 30n * 86_400n }),
+ *     bayesianSmoothing({ mean: 50, weight: 5 }),
+ *   ],
+ *   breakdownBy: 'tag1',
+ * });
+ *
+ * const { score, explanation } = await sdk.scoreReputation(42n, scorer);
+ * ```
+ */
+export class ReputationScorer {
+  private readonly strategies: readonly ScoringStrategy[];
+  private readonly breakdownBy?: 'tag1' | 'tag2';
+  private readonly now?: bigint;
+
+  constructor(config: ReputationScorerConfig = {}) {
+    this.strategies = config.strategies ?? [
+      excludeRevoked(),
+      normalizeDecimals(),
+    ];
+    this.breakdownBy = config.breakdownBy;
+    this.now = config.now;
+  }
+
+  /**
+   * Score feedback entries, e.g. from `readFeedback` or `listFeedback`
+   */
+  score(feedback: readonly Feedback[]): ReputationScore {
+    const context = {
+      now: this.now ?? BigInt(Math.floor(Date.now() / 1000)),
+    };
+    const total = this.run(feedback, context);
+    if (!this.breakdownBy) {
+      return total;
+    }
+
+    const groups = new Map<string, Feedback[]>();
+    for (const entry of feedback) {
+      const tag = entry[this.breakdownBy];
+      const group = groups.get(tag);
+      if (group) group.push(entry);
+      else groups.set(tag, [entry]);
+    }
+    const breakdown = Object.fromEntries(
+      [...groups].map(([tag, group]) => [tag, this.run(group, context)])
+    );
+    return { ...total, breakdown };
+  }
+
+  private run(
+    feedback: readonly Feedback[],
+    context: ScoringContext
+  ): ReputationScore {
+    let entries: readonly ScoredEntry[] = feedback.map((entry) => ({
+      value: Number(entry.value),
+      weight: 1,
+      feedback: entry,
+    }));
+
+    const explanation: ScoreStep[] = [];
+    for (const strategy of this.strategies) {
+      const step = strategy.apply(entries, context);
+      entries = step.entries;
+      explanation.push({ strategy: strategy.name, detail: step.detail });
+    }
+
+    let totalWeight = 0;
+    let weighted = 0;
+    for (const entry of entries) {
+      totalWeight += entry.weight;
+      weighted += entry.value * entry.weight;
+    }
+    return {
+      score: totalWeight > 0 ? weighted / totalWeight : null,
+      count: entries.filter((entry) => entry.feedback).length,
+      totalWeight,
+      explanation,
+    };
+  }
+}
@@ -0,0 +1,13 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// DEV UTILITIES
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// Published as `@avax/eip8004-sdk/testing`, so the main entry does not pull
+// in the BLS implementation. Install `@noble/curves` to use it.
+
+export type {
+  LocalWarpValidator,
+  LocalWarpAggregatorConfig,
+} from './utils/aggregator';
+
+export { LocalWarpAggregator } from './utils/aggregator';
@@ -1,4 +1,5 @@
-import type { Address, Hash, Hex } from 'viem';
+import type { AccessList, Address, Hash, Hex } from 'viem';
+import type { AgentSDKError } from '../errors';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CORE TYPES
@@ -28,6 +29,129 @@ export interface Feedback {
   readonly responseHash: Hash;
   readonly timestamp: bigint;
   readonly revoked: boolean;
+  /**
+   * Document at `feedbackURI`, when requested and the URI is set; fails with
+   * `HashMismatch` if it does not match `feedbackHash`
+   */
+  readonly feedbackDocument?: BatchResult<ResolvedDocument>;
+  readonly feedbackIntegrity?: IntegrityStatus;
+  /**
+   * Document at `responseURI`, when requested and the URI is set; fails with
+   * `HashMismatch` if it does not match `responseHash`
+   */
+  readonly responseDocument?: BatchResult<ResolvedDocument>;
+  readonly responseIntegrity?: IntegrityStatus;
+}
+
+/**
+ * A feedback entry with its position in the registry
+ */
+export interface FeedbackEntry extends Feedback {
+  readonly agentId: bigint;
+  readonly index: bigint;
+  /**
+   * Block the feedback was given in
+   */
+  readonly blockNumber: bigint;
+  readonly transactionHash: Hash;
+}
+
+/**
+ * One page of an agent's feedback, oldest first
+ */
+export interface FeedbackPage {
+  readonly items: readonly FeedbackEntry[];
+  /**
+   * Entries on this page whose `readFeedback` call failed, left out of
+   * `items`
+   */
+  readonly failures: readonly FeedbackReadFailure[];
+  /**
+   * Matching entries across all pages
+   */
+  readonly total: number;
+  /**
+   * Offset of the next page, or null on the last page
+   */
+  readonly nextOffset: number | null;
+}
+
+/**
+ * A feedback entry that could not be read
+ */
+export interface FeedbackReadFailure extends FeedbackKey {
+  readonly error: AgentSDKError;
+}
+
+/**
+ * An agent's identity registry record
+ */
+export interface AgentRecord {
+  readonly agentId: bigint;
+  readonly owner: Address;
+  readonly agentURI: string;
+  /**
+   * Linked wallet (zero address if none)
+   */
+  readonly wallet: Address;
+  /**
+   * A2A endpoint (empty string if none)
+   */
+  readonly endpoint: string;
+}
+
+/**
+ * An on-chain metadata value, with its UTF-8 reading when it has one
+ */
+export interface MetadataValue {
+  readonly raw: Hex;
+  readonly text: string | null;
+}
+
+/**
+ * One section of an agent profile: its value, or why it could not be loaded
+ */
+export type ProfileField<T> = BatchResult<T>;
+
+/**
+ * Everything the registries know about an agent, loaded section by section
+ */
+export interface AgentProfile {
+  readonly agentId: bigint;
+  /**
+   * Whether the agent is registered; when it is not, every other section
+   * fails with `AgentNotFound`
+   */
+  readonly exists: ProfileField<boolean>;
+  readonly owner: ProfileField<Address>;
+  readonly agentURI: ProfileField<string>;
+  readonly wallet: ProfileField<Address>;
+  readonly endpoint: ProfileField<string>;
+  /**
+   * Requested metadata keys
+   */
+  readonly metadata: Readonly<Record<string, ProfileField<MetadataValue>>>;
+  readonly reputation: ProfileField<Summary>;
+  readonly validation: ProfileField<Summary>;
+  readonly validationHashes: ProfileField<readonly Hash[]>;
+  /**
+   * Document at `agentURI`, when documents are resolved
+   */
+  readonly agentDocument?: ProfileField<ResolvedDocument>;
+  /**
+   * Registration file at `agentURI`, when requested; fails if the file is
+   * invalid or does not point back to this agent
+   */
+  readonly registration?: ProfileField<RegistrationFile>;
+}
+
+/**
+ * Position of a feedback entry in the reputation registry
+ */
+export interface FeedbackKey {
+  readonly agentId: bigint;
+  readonly client: Address;
+  readonly index: bigint;
 }
 
 /**
@@ -44,6 +168,44 @@ export interface ValidationRequest {
   readonly responseHash: Hash;
   readonly tag: string;
   readonly timestamp: bigint;
+  /**
+   * Document at `requestURI`, when requested and the URI is set; fails with
+   * `HashMismatch` if it does not match `requestHash`
+   */
+  readonly requestDocument?: BatchResult<ResolvedDocument>;
+  readonly requestIntegrity?: IntegrityStatus;
+  /**
+   * Document at `responseURI`, when requested and the URI is set; fails with
+   * `HashMismatch` if it does not match `responseHash`
+   */
+  readonly responseDocument?: BatchResult<ResolvedDocument>;
+  readonly responseIntegrity?: IntegrityStatus;
+}
+
+/**
+ * Where a validation request is in its lifecycle, derived from its
+ * `ResponseCode`
+ */
+export type ValidationLifecycleStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'inconclusive';
+
+/**
+ * A validation request with its derived status and age
+ */
+export interface ValidationRequestEntry extends ValidationRequest {
+  readonly status: ValidationLifecycleStatus;
+  /**
+   * Seconds since the request was made
+   */
+  readonly age: bigint;
+  /**
+   * Still pending after the staleness threshold: the validator never
+   * answered
+   */
+  readonly stale: boolean;
 }
 
 /**
@@ -55,6 +217,32 @@ export interface Summary {
   readonly decimals: number;
 }
 
+/**
+ * Remote verifier currently allowed to query the home-chain registries
+ */
+export interface AuthorizedVerifier {
+  readonly chainId: Hash;
+  readonly verifier: Address;
+  readonly authorizedAtBlock: bigint;
+}
+
+/**
+ * A cross-chain query answered by the registry responder
+ */
+export interface ResponderQuery {
+  readonly kind: 'verification' | 'reputation';
+  readonly requestId: Hash;
+  readonly agentId: bigint;
+  /**
+   * Chain and verifier the query came from, when the Teleporter delivery log
+   * is available
+   */
+  readonly sourceChain?: Hash;
+  readonly verifier?: Address;
+  readonly blockNumber: bigint;
+  readonly transactionHash: Hash;
+}
+
 /**
  * Cross-chain agent verification result
  */
@@ -66,6 +254,153 @@ export interface AgentVerification {
   readonly feedbackCount: bigint;
 }
 
+/**
+ * Cross-chain reputation query result, with the query that produced it
+ */
+export interface ReputationQueryResult {
+  readonly requestId: Hash;
+  readonly feedbackCount: bigint;
+  /**
+   * Raw sum of the matching feedback values; the Teleporter response carries
+   * no decimals, so they are not known on this chain
+   */
+  readonly aggregateScore: bigint;
+  /**
+   * The query as sent, with filter defaults filled in
+   */
+  readonly query: Required<QueryReputationParams>;
+  /**
+   * Block the response was delivered in
+   */
+  readonly blockNumber: bigint;
+}
+
+/**
+ * Identity proof cached by a Warp verifier
+ */
+export interface IdentityProof {
+  readonly owner: Address;
+  readonly endpoint: string;
+  readonly provenAt: bigint;
+  readonly verified: boolean;
+}
+
+/**
+ * Reputation proof cached by a Warp verifier
+ */
+export interface ReputationProof {
+  readonly feedbackCount: bigint;
+  readonly aggregateScore: bigint;
+  readonly decimals: number;
+  readonly provenAt: bigint;
+  readonly verified: boolean;
+}
+
+/**
+ * Validation proof cached by a Warp verifier for one validator
+ */
+export interface ValidationProof {
+  readonly response: number;
+  readonly tag: string;
+  readonly provenAt: bigint;
+  readonly verified: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WARP MESSAGES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Avalanche unsigned Warp message, as signed by the source chain's validators
+ */
+export interface UnsignedWarpMessage {
+  readonly networkId: number;
+  readonly sourceChainId: Hash;
+  readonly payload: Hex;
+}
+
+/**
+ * Aggregate BLS signature over an unsigned Warp message
+ */
+export interface BitSetSignature {
+  /**
+   * Bit set of signing validators, indexed in canonical validator order
+   */
+  readonly signers: Hex;
+  /**
+   * 96-byte compressed aggregate BLS signature
+   */
+  readonly signature: Hex;
+}
+
+/**
+ * Avalanche Warp message with its validator signature
+ */
+export interface SignedWarpMessage {
+  readonly unsignedMessage: UnsignedWarpMessage;
+  readonly signature: BitSetSignature;
+}
+
+/**
+ * Warp payload sent by a contract through the Warp precompile
+ */
+export interface AddressedCall {
+  readonly sourceAddress: Address;
+  readonly payload: Hex;
+}
+
+/**
+ * Identity proof payload: the agent's owner and endpoint
+ */
+export interface IdentityProofPayload {
+  readonly schemaVersion: number;
+  readonly proofType: typeof ProofType.IDENTITY;
+  readonly agentId: bigint;
+  readonly owner: Address;
+  readonly endpoint: string;
+  readonly timestamp: bigint;
+}
+
+/**
+ * Reputation proof payload: the agent's unfiltered feedback summary
+ */
+export interface ReputationProofPayload {
+  readonly schemaVersion: number;
+  readonly proofType: typeof ProofType.REPUTATION;
+  readonly agentId: bigint;
+  readonly feedbackCount: bigint;
+  readonly aggregateScore: bigint;
+  readonly decimals: number;
+  readonly timestamp: bigint;
+}
+
+/**
+ * Validation proof payload: one validator's response for the agent
+ */
+export interface ValidationProofPayload {
+  readonly schemaVersion: number;
+  readonly proofType: typeof ProofType.VALIDATION;
+  readonly agentId: bigint;
+  readonly validator: Address;
+  readonly response: number;
+  readonly tag: string;
+  readonly timestamp: bigint;
+}
+
+/**
+ * Unsigned call to an AgentWarpVerifier `verify*` function with its predicate
+ */
+export interface WarpProofTransaction {
+  readonly to: Address;
+  readonly data: Hex;
+  readonly accessList: AccessList;
+}
+
+export type ProofPayload =
+  | IdentityProofPayload
+  | ReputationProofPayload
+  | ValidationProofPayload;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // RESPONSE CODES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -79,6 +414,17 @@ export const ResponseCode = {
 
 export type ResponseCode = (typeof ResponseCode)[keyof typeof ResponseCode];
 
+/**
+ * Warp proof types (AgentProofEmitter / AgentWarpVerifier PROOF_* constants)
+ */
+export const ProofType = {
+  IDENTITY: 1,
+  REPUTATION: 2,
+  VALIDATION: 3,
+} as const;
+
+export type ProofType = (typeof ProofType)[keyof typeof ProofType];
+
 // ═══════════════════════════════════════════════════════════════════════════
 // SDK CONFIGURATION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -92,6 +438,8 @@ export interface ContractAddresses {
   readonly validationRegistry: Address;
   readonly crossChainVerifier?: Address;
   readonly registryResponder?: Address;
+  readonly warpVerifier?: Address;
+  readonly proofEmitter?: Address;
 }
 
 /**
@@ -105,10 +453,25 @@ export interface ChainConfig {
   readonly contracts: ContractAddresses;
 }
 
+/**
+ * Options shared by the contract clients
+ */
+export interface RegistryClientOptions {
+  /**
+   * Simulate every write with `eth_call` before sending it (default: true)
+   */
+  readonly simulateWrites?: boolean;
+  /**
+   * Fetches the documents behind agent, feedback and validation URIs
+   * (default: a DefaultUriResolver)
+   */
+  readonly uriResolver?: UriResolver;
+}
+
 /**
  * SDK initialization options
  */
-export interface SDKConfig {
+export interface SDKConfig extends RegistryClientOptions {
   readonly chain: ChainConfig;
 }
 
@@ -129,6 +492,10 @@ export interface GiveFeedbackParams {
   readonly tag2?: string;
   readonly endpoint?: string;
   readonly feedbackURI?: string;
+  /**
+   * Hash of the document at `feedbackURI` (see `hashDocument` and
+   * `hashJsonDocument`); zero commits to nothing
+   */
   readonly feedbackHash?: Hash;
 }
 
@@ -136,13 +503,69 @@ export interface ValidationRequestParams {
   readonly validator: Address;
   readonly agentId: bigint;
   readonly requestURI?: string;
+  /**
+   * Unique request id; `buildValidationRequest` derives one from the request
+   * document
+   */
   readonly requestHash: Hash;
 }
 
+export interface BuildValidationRequestParams {
+  readonly agentId: bigint;
+  readonly validator: Address;
+  /**
+   * What the validator should check; any JSON value
+   */
+  readonly payload: unknown;
+  /**
+   * Salt that makes the hash unique (default: random). A fixed nonce
+   * rebuilds the same hash.
+   */
+  readonly nonce?: bigint;
+  /**
+   * Store the request document and return its URI (default: embed it as a
+   * `data:` URI)
+   */
+  readonly upload?: (document: ValidationRequestDocument) => Promise<string>;
+}
+
+/**
+ * The canonical document a built validation request commits to
+ */
+export interface ValidationRequestDocument {
+  readonly validationRegistry: Address;
+  /**
+   * Decimal string, since JSON numbers cannot hold a uint256
+   */
+  readonly agentId: string;
+  readonly validator: Address;
+  /**
+   * Decimal string
+   */
+  readonly nonce: string;
+  readonly payload: unknown;
+}
+
+export interface BuiltValidationRequest {
+  readonly document: ValidationRequestDocument;
+  /**
+   * keccak256 of the document's canonical JSON
+   */
+  readonly requestHash: Hash;
+  /**
+   * Ready to pass to `validationRequest`
+   */
+  readonly params: ValidationRequestParams & { readonly requestURI: string };
+}
+
 export interface ValidationResponseParams {
   readonly requestHash: Hash;
   readonly response: ResponseCode;
   readonly responseURI?: string;
+  /**
+   * Hash of the document at `responseURI` (see `hashDocument` and
+   * `hashJsonDocument`); zero commits to nothing
+   */
   readonly responseHash?: Hash;
   readonly tag?: string;
 }
@@ -167,10 +590,193 @@ export interface QueryReputationParams {
   readonly tag2?: string;
 }
 
+/**
+ * Block range for event queries (defaults to the whole chain)
+ */
+export interface LogQueryOptions {
+  readonly fromBlock?: bigint;
+  readonly toBlock?: bigint;
+}
+
+export interface ListFeedbackOptions extends LogQueryOptions {
+  /**
+   * Include revoked feedback (default: false)
+   */
+  readonly includeRevoked?: boolean;
+  readonly tag1?: string;
+  readonly tag2?: string;
+  /**
+   * Matching entries to skip (default: 0)
+   */
+  readonly offset?: number;
+  /**
+   * Page size (default: 100)
+   */
+  readonly limit?: number;
+}
+
+export interface ValidationRequestLogOptions extends LogQueryOptions {
+  readonly validator?: Address;
+  readonly agentId?: bigint;
+}
+
+export interface ListValidationRequestsOptions extends BatchReadOptions {
+  /**
+   * Only requests in this status (or any of these)
+   */
+  readonly status?:
+    | ValidationLifecycleStatus
+    | readonly ValidationLifecycleStatus[];
+  readonly validator?: Address;
+  /**
+   * Only requests answered with this tag
+   */
+  readonly tag?: string;
+  /**
+   * Only requests at least this many seconds old
+   */
+  readonly olderThan?: bigint;
+  /**
+   * Seconds after which a pending request is stale (default: 1 day)
+   */
+  readonly staleAfter?: bigint;
+  /**
+   * Unix time ages are measured from (default: the latest block's timestamp)
+   */
+  readonly now?: bigint;
+}
+
+export interface AgentProfileOptions
+  extends LogQueryOptions,
+    ResolveDocumentsOptions {
+  /**
+   * Metadata keys to read and decode
+   */
+  readonly metadataKeys?: readonly string[];
+  /**
+   * Clients the reputation summary covers (default: every client found in
+   * `FeedbackGiven` logs from `fromBlock`)
+   */
+  readonly reputationClients?: readonly Address[];
+  /**
+   * Validators the validation summary covers (default: all)
+   */
+  readonly validators?: readonly Address[];
+  /**
+   * Fetch and validate the registration file at `agentURI` (default: false)
+   */
+  readonly includeRegistration?: boolean;
+}
+
+export interface ResolveDocumentsOptions {
+  /**
+   * Fetch the documents the returned URIs point to (default: false)
+   */
+  readonly resolveDocuments?: boolean;
+}
+
+export interface BatchReadOptions {
+  /**
+   * Calls per Multicall3 request (default: 100)
+   */
+  readonly chunkSize?: number;
+  /**
+   * Read at this block instead of the latest
+   */
+  readonly blockNumber?: bigint;
+}
+
+/**
+ * How to watch for an event
+ */
+export interface WaitForEventOptions {
+  /**
+   * `websocket` uses `eth_subscribe`, `polling` polls for logs (default:
+   * websocket on WebSocket transports, polling otherwise)
+   */
+  readonly strategy?: 'polling' | 'websocket';
+  /**
+   * Milliseconds between polls (default: the client's polling interval)
+   */
+  readonly pollingInterval?: number;
+  /**
+   * Also match events from this block on, mined before the wait started
+   */
+  readonly fromBlock?: bigint;
+}
+
+export interface WaitForResponseOptions extends WaitForEventOptions {
+  /**
+   * Milliseconds to wait for the Teleporter round trip (default: 5 minutes)
+   */
+  readonly timeout?: number;
+}
+
+/**
+ * How to deliver a subscription's events
+ */
+export interface WatchEventOptions
+  extends Omit<WaitForEventOptions, 'fromBlock'> {
+  /**
+   * Called when the subscription fails; polling retries on the next interval
+   */
+  readonly onError?: (error: AgentSDKError) => void;
+}
+
+export interface WatchAgentRegisteredOptions extends WatchEventOptions {
+  readonly owner?: Address;
+}
+
+/**
+ * Filters for FeedbackGiven, FeedbackRevoked and ResponseAppended
+ */
+export interface WatchFeedbackOptions extends WatchEventOptions {
+  readonly agentId?: bigint;
+  readonly client?: Address;
+}
+
+export interface WatchValidationRequestedOptions extends WatchEventOptions {
+  /**
+   * Only requests addressed to this validator
+   */
+  readonly validator?: Address;
+  readonly agentId?: bigint;
+}
+
+export interface WatchValidationRespondedOptions extends WatchEventOptions {
+  readonly requestHash?: Hash;
+}
+
+export interface WatchAgentWalletSetOptions extends WatchEventOptions {
+  readonly agentId?: bigint;
+}
+
+/**
+ * Stops a subscription; calling it again does nothing
+ */
+export type Unsubscribe = () => void;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BATCH RESULTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Outcome of one read in a batch; a failure does not affect the others
+ */
+export type BatchResult<T> =
+  | { readonly status: 'success'; readonly result: T }
+  | { readonly status: 'failure'; readonly error: AgentSDKError };
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TRANSACTION RESULTS
 // ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * A submitted transaction
+ *
+ * `wait()` resolves with the receipt once mined, including a reverted one;
+ * results that decode an event reject with TransactionRevertedError instead.
+ */
 export interface TransactionResult {
   readonly hash: Hash;
   readonly wait: () => Promise<TransactionReceipt>;
@@ -184,10 +790,466 @@ export interface TransactionReceipt {
   readonly gasUsed: bigint;
 }
 
-export interface RegisterAgentResult extends TransactionResult {
+/**
+ * Receipt carrying the decoded domain event emitted by the transaction
+ */
+export interface EventReceipt<TEvent> extends TransactionReceipt {
+  readonly event: TEvent;
+}
+
+/**
+ * Transaction result whose `wait()` also decodes the emitted domain event
+ *
+ * A reverted transaction emits no event, so `wait()` rejects with
+ * TransactionRevertedError; a resolved receipt always has status `success`.
+ */
+export interface EventTransactionResult<TEvent> extends TransactionResult {
+  readonly wait: () => Promise<EventReceipt<TEvent>>;
+}
+
+export interface RegisterAgentReceipt extends EventReceipt<AgentRegisteredEvent> {
   readonly agentId: bigint;
 }
 
+export interface RegisterAgentResult extends TransactionResult {
+  /**
+   * Resolves once mined, with the agentId decoded from `AgentRegistered`
+   */
+  readonly wait: () => Promise<RegisterAgentReceipt>;
+}
+
+export interface CrossChainRequestReceipt<TEvent> extends EventReceipt<TEvent> {
+  readonly requestId: Hash;
+}
+
 export interface VerifyAgentResult extends TransactionResult {
+  /**
+   * Resolves once mined, with the requestId decoded from `VerificationRequested`
+   */
+  readonly wait: () => Promise<CrossChainRequestReceipt<VerificationRequestedEvent>>;
+}
+
+export interface QueryReputationResult extends TransactionResult {
+  /**
+   * Resolves once mined, with the requestId decoded from `ReputationQueried`
+   */
+  readonly wait: () => Promise<CrossChainRequestReceipt<ReputationQueriedEvent>>;
+}
+
+export interface ProofEmittedReceipt extends EventReceipt<ProofEmittedEvent> {
+  readonly messageId: Hash;
+  /**
+   * Serialized unsigned Warp message to collect signatures for
+   */
+  readonly unsignedMessage: Hex;
+  readonly warpMessage: UnsignedWarpMessage;
+  /**
+   * The emitter's call; `payload` is the ABI-encoded proof
+   */
+  readonly addressedCall: AddressedCall;
+}
+
+export interface VerifyProofReceipt<TEvent> extends EventReceipt<TEvent> {
+  readonly agentId: bigint;
+}
+
+export interface VerifyProofResult<TEvent> extends TransactionResult {
+  /**
+   * Resolves once mined, with the agentId whose proof was cached
+   */
+  readonly wait: () => Promise<VerifyProofReceipt<TEvent>>;
+}
+
+export interface EmitProofResult extends TransactionResult {
+  /**
+   * Resolves once mined, with the Warp message the proof was sent in
+   */
+  readonly wait: () => Promise<ProofEmittedReceipt>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EVENTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A decoded event with the position of the log that carried it
+ */
+export interface ContractEventLog<TEvent> {
+  readonly event: TEvent;
+  readonly blockNumber: bigint;
+  readonly blockHash: Hash;
+  readonly transactionHash: Hash;
+  readonly logIndex: number;
+}
+
+export interface AgentRegisteredEvent {
+  readonly agentId: bigint;
+  readonly owner: Address;
+  readonly agentURI: string;
+}
+
+export interface AgentURIUpdatedEvent {
+  readonly agentId: bigint;
+  readonly newURI: string;
+}
+
+export interface MetadataUpdatedEvent {
+  readonly agentId: bigint;
+  readonly key: string;
+  readonly value: Hex;
+}
+
+export interface AgentWalletSetEvent {
+  readonly agentId: bigint;
+  readonly wallet: Address;
+}
+
+export interface AgentWalletUnsetEvent {
+  readonly agentId: bigint;
+}
+
+export interface EndpointUpdatedEvent {
+  readonly agentId: bigint;
+  readonly endpoint: string;
+}
+
+export interface FeedbackGivenEvent {
+  readonly agentId: bigint;
+  readonly client: Address;
+  readonly index: bigint;
+  readonly value: bigint;
+  readonly tag1: string;
+  readonly tag2: string;
+}
+
+export interface FeedbackRevokedEvent {
+  readonly agentId: bigint;
+  readonly client: Address;
+  readonly index: bigint;
+}
+
+export interface ResponseAppendedEvent {
+  readonly agentId: bigint;
+  readonly client: Address;
+  readonly index: bigint;
+}
+
+export interface ValidationRequestedEvent {
+  readonly requestHash: Hash;
+  readonly validator: Address;
+  readonly agentId: bigint;
+  readonly requester: Address;
+}
+
+export interface ValidationRespondedEvent {
+  readonly requestHash: Hash;
+  readonly response: number;
+  readonly tag: string;
+}
+
+export interface VerificationRequestedEvent {
+  readonly requestId: Hash;
+  readonly sourceChain: Hash;
+  readonly agentId: bigint;
+  readonly requester: Address;
+}
+
+export interface ReputationQueriedEvent {
   readonly requestId: Hash;
+  readonly sourceChain: Hash;
+  readonly agentId: bigint;
+}
+
+export interface VerificationReceivedEvent {
+  readonly requestId: Hash;
+  readonly exists: boolean;
+  readonly reputationScore: bigint;
+}
+
+export interface ReputationReceivedEvent {
+  readonly requestId: Hash;
+  readonly feedbackCount: bigint;
+  readonly aggregateScore: bigint;
+}
+
+export interface RegistryConfiguredEvent {
+  readonly chainId: Hash;
+  readonly registry: Address;
+}
+
+export interface IdentityVerifiedEvent {
+  readonly agentId: bigint;
+  readonly owner: Address;
+  readonly endpoint: string;
+}
+
+export interface ReputationVerifiedEvent {
+  readonly agentId: bigint;
+  readonly feedbackCount: bigint;
+  readonly score: bigint;
+}
+
+export interface ValidationVerifiedEvent {
+  readonly agentId: bigint;
+  readonly validator: Address;
+  readonly response: number;
+}
+
+export interface ProofEmittedEvent {
+  readonly agentId: bigint;
+  readonly messageId: Hash;
+}
+
+export interface VerifierAuthorizedEvent {
+  readonly chainId: Hash;
+  readonly verifier: Address;
+}
+
+export interface VerificationQueryReceivedEvent {
+  readonly requestId: Hash;
+  readonly agentId: bigint;
+}
+
+export interface ReputationQueryReceivedEvent {
+  readonly requestId: Hash;
+  readonly agentId: bigint;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INDEXER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Contracts the indexer reads events from, by their ContractAddresses key
+ */
+export type IndexedContract = keyof ContractAddresses;
+
+/**
+ * A block the indexer has processed, used to detect reorgs
+ */
+export interface IndexedBlock {
+  readonly number: bigint;
+  readonly hash: Hash;
+}
+
+/**
+ * A decoded registry event, normalized for storage
+ */
+export interface IndexedEvent {
+  readonly contract: IndexedContract;
+  readonly address: Address;
+  readonly eventName: string;
+  /**
+   * Decoded event arguments, by ABI parameter name
+   */
+  readonly args: Readonly<Record<string, unknown>>;
+  /**
+   * The agent the event concerns, when it carries an `agentId`
+   */
+  readonly agentId?: bigint;
+  readonly blockNumber: bigint;
+  readonly blockHash: Hash;
+  readonly transactionHash: Hash;
+  readonly logIndex: number;
+}
+
+export interface IndexedEventFilter {
+  readonly contract?: IndexedContract;
+  readonly eventName?: string | readonly string[];
+  readonly agentId?: bigint;
+  readonly fromBlock?: bigint;
+  readonly toBlock?: bigint;
+}
+
+/**
+ * A batch of indexed blocks, written atomically
+ */
+export interface IndexerCommit {
+  readonly events: readonly IndexedEvent[];
+  /**
+   * Hashes of the blocks in the batch that reorg checks can fall back to
+   */
+  readonly blocks: readonly IndexedBlock[];
+  /**
+   * Last block the batch covers
+   */
+  readonly cursor: IndexedBlock;
+  /**
+   * Tracked blocks below this number can be forgotten
+   */
+  readonly pruneBelow?: bigint;
+}
+
+/**
+ * Storage backend for AgentIndexer
+ *
+ * Implementations must apply `commit` and `rollback` atomically; the indexer
+ * never calls them concurrently.
+ */
+export interface IndexerStore {
+  /**
+   * Last block indexed, or null before the first commit
+   */
+  getCursor(): Promise<IndexedBlock | null>;
+  /**
+   * Tracked block hashes, oldest first
+   */
+  getBlocks(): Promise<IndexedBlock[]>;
+  commit(batch: IndexerCommit): Promise<void>;
+  /**
+   * Drop everything after `block` and make it the cursor
+   * (null drops everything)
+   */
+  rollback(block: IndexedBlock | null): Promise<void>;
+  /**
+   * Stored events in chain order
+   */
+  getEvents(filter?: IndexedEventFilter): Promise<IndexedEvent[]>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRATION FILE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Trust models an agent can advertise in its registration file
+ */
+export type TrustModel = 'reputation' | 'crypto-economic' | 'tee-attestation';
+
+/**
+ * Endpoint names with a defined format; any other name is accepted as is
+ */
+export type RegistrationEndpointName =
+  | 'A2A'
+  | 'MCP'
+  | 'OASF'
+  | 'ENS'
+  | 'DID'
+  | 'agentWallet';
+
+/**
+ * A way to reach the agent, listed under `endpoints` (or `services`)
+ */
+export interface RegistrationEndpoint {
+  readonly name: RegistrationEndpointName | (string & {});
+  /**
+   * URL, ENS name, DID or CAIP-10 account, depending on `name`
+   */
+  readonly endpoint: string;
+  readonly version?: string;
+}
+
+/**
+ * Back-reference from the file to an identity registry entry
+ */
+export interface RegistrationEntry {
+  readonly agentId: number;
+  /**
+   * CAIP-10 registry address: `eip155:<chainId>:<address>`
+   */
+  readonly agentRegistry: string;
+}
+
+/**
+ * The EIP-8004 registration file an agent's `agentURI` points to
+ */
+export interface RegistrationFile {
+  readonly type: string;
+  readonly name: string;
+  readonly description: string;
+  readonly image?: string;
+  readonly endpoints: readonly RegistrationEndpoint[];
+  readonly registrations: readonly RegistrationEntry[];
+  readonly supportedTrust?: readonly TrustModel[];
+}
+
+/**
+ * A registration file problem, located by a JSON path such as
+ * `$.endpoints[1].endpoint`
+ */
+export interface RegistrationIssue {
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * An identity registry entry a registration file should point back to
+ */
+export interface RegisteredAgent {
+  readonly chainId: number;
+  readonly identityRegistry: Address;
+  readonly agentId: bigint;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// URI RESOLUTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A document fetched from an agent, feedback or validation URI
+ */
+export interface ResolvedDocument {
+  readonly uri: string;
+  /**
+   * URL the bytes were fetched from (the gateway URL for `ipfs://`/`ar://`)
+   */
+  readonly source: string;
+  readonly contentType: string | null;
+  readonly bytes: Uint8Array;
+  /**
+   * UTF-8 reading of `bytes`, or null if they are not valid UTF-8
+   */
+  readonly text: string | null;
+  /**
+   * Parsed JSON, or undefined if `text` is not JSON
+   */
+  readonly json: unknown;
+}
+
+/**
+ * How a fetched document compares to the hash committed on-chain
+ *
+ * - `verified`: its raw bytes or canonical JSON hash to the commitment
+ * - `mismatch`: they do not; the content was altered or replaced
+ * - `unhashed`: the commitment is zero, so there is nothing to check
+ */
+export type IntegrityStatus = 'verified' | 'mismatch' | 'unhashed';
+
+/**
+ * Raw result of a UriHandler fetch
+ */
+export interface FetchedDocument {
+  readonly source: string;
+  readonly contentType: string | null;
+  readonly bytes: Uint8Array;
+}
+
+export interface UriFetchContext {
+  /**
+   * Milliseconds allowed per request
+   */
+  readonly timeout: number;
+  /**
+   * Largest body accepted, in bytes
+   */
+  readonly maxSize: number;
+  readonly fetch: typeof globalThis.fetch;
+}
+
+/**
+ * Fetches the URIs of one or more schemes
+ */
+export interface UriHandler {
+  /**
+   * Schemes handled, with the colon (e.g. `ipfs:`)
+   */
+  readonly schemes: readonly string[];
+  fetch(uri: string, context: UriFetchContext): Promise<FetchedDocument>;
+}
+
+/**
+ * Turns a URI stored on-chain into the document it points to
+ */
+export interface UriResolver {
+  resolve(uri: string): Promise<ResolvedDocument>;
 }
@@ -0,0 +1,167 @@
+import type { Hex, Log } from 'viem';
+import { bytesToHex, hexToBytes } from 'viem';
+import { bls12_381 } from '@noble/curves/bls12-381';
+import { InvalidArgumentError } from '../errors';
+import type { SignedWarpMessage } from '../types';
+import {
+  decodeSignerBitSet,
+  encodeSignerBitSet,
+  getSentWarpMessages,
+  parseUnsignedWarpMessage,
+  serializeSignedWarpMessage,
+  serializeUnsignedWarpMessage,
+} from './warp';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOCAL WARP AGGREGATOR
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * BLS ciphersuite Avalanche validators sign Warp messages with
+ */
+const WARP_SIGNATURE_DST = 'BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_';
+
+/**
+ * A stand-in validator, in canonical (signer bit set) order
+ */
+export interface LocalWarpValidator {
+  readonly index: number;
+  /**
+   * 48-byte compressed BLS public key
+   */
+  readonly publicKey: Hex;
+}
+
+export interface LocalWarpAggregatorConfig {
+  /**
+   * 32-byte BLS secret keys of the stand-in validator set
+   */
+  readonly privateKeys: readonly Hex[];
+}
+
+/**
+ * Signs Warp messages with a local set of test BLS keys
+ *
+ * Stands in for a validator set and signature aggregator on networks without
+ * one (Anvil, CI), so the emit → sign → verify flow can run end to end. The
+ * signatures are real BLS signatures, but only a verifier that trusts these
+ * keys will accept them. Never use it with keys that secure real funds.
+ *
+ * @example
+ * ```typescript
+ * const aggregator = new LocalWarpAggregator({ privateKeys: [key1, key2] });
+ *
+ * const emitted = await (await sdk.proofEmitter!.emitIdentityProof(1n)).wait();
+ * const signed = aggregator.sign(emitted.unsignedMessage);
+ * await remoteSdk.warp!.verifyIdentity(serializeSignedWarpMessage(signed));
+ * ```
+ */
+export class LocalWarpAggregator {
+  /**
+   * Validators sorted as Avalanche orders a canonical validator set
+   */
+  public readonly validators: readonly LocalWarpValidator[];
+
+  private readonly privateKeys: readonly Uint8Array[];
+
+  constructor(config: LocalWarpAggregatorConfig) {
+    if (config.privateKeys.length === 0) {
+      throw new InvalidArgumentError(
+        'privateKeys',
+        'at least one key is required'
+      );
+    }
+
+    // Canonical order is by uncompressed public key bytes
+    const keys = config.privateKeys
+      .map((privateKey) => {
+        const secret = hexToBytes(privateKey);
+        const publicKey = bls12_381.getPublicKey(secret);
+        const sortKey = bytesToHex(
+          bls12_381.G1.ProjectivePoint.fromHex(publicKey).toRawBytes(false)
+        );
+        return { secret, publicKey: bytesToHex(publicKey), sortKey };
+      })
+      .sort((a, b) => (a.sortKey < b.sortKey ? -1 : 1));
+
+    this.privateKeys = keys.map((key) => key.secret);
+    this.validators = keys.map((key, index) => ({
+      index,
+      publicKey: key.publicKey,
+    }));
+  }
+
+  /**
+   * Sign an unsigned Warp message with some or all of the validators
+   *
+   * @param unsignedMessage - Serialized unsigned Warp message
+   * @param signers - Validator indices to sign with (default: all)
+   */
+  sign(unsignedMessage: Hex, signers?: readonly number[]): SignedWarpMessage {
+    const indices = [
+      ...new Set(signers ?? this.validators.map((v) => v.index)),
+    ].sort((a, b) => a - b);
+    if (indices.length === 0) {
+      throw new InvalidArgumentError(
+        'signers',
+        'at least one signer is required'
+      );
+    }
+    for (const index of indices) {
+      if (!this.validators[index]) {
+        throw new InvalidArgumentError(
+          'signers',
+          `no validator at index ${index}`
+        );
+      }
+    }
+
+    const message = hexToBytes(unsignedMessage);
+    const signatures = indices.map((index) =>
+      bls12_381.sign(message, this.privateKeys[index], {
+        DST: WARP_SIGNATURE_DST,
+      })
+    );
+
+    return {
+      unsignedMessage: parseUnsignedWarpMessage(unsignedMessage),
+      signature: {
+        signers: encodeSignerBitSet(indices),
+        signature: bytesToHex(bls12_381.aggregateSignatures(signatures)),
+      },
+    };
+  }
+
+  /**
+   * Sign every message in a set of Warp precompile SendWarpMessage logs
+   * @returns Serialized signed messages, in log order
+   */
+  signLogs(logs: readonly Log[]): Hex[] {
+    return getSentWarpMessages(logs).map((sent) =>
+      serializeSignedWarpMessage(this.sign(sent.unsignedMessage))
+    );
+  }
+
+  /**
+   * Check a signed message's aggregate signature against this validator set
+   */
+  verify(message: SignedWarpMessage): boolean {
+    const indices = decodeSignerBitSet(message.signature.signers);
+    if (
+      indices.length === 0 ||
+      indices.some((index) => index >= this.validators.length)
+    ) {
+      return false;
+    }
+
+    const publicKey = bls12_381.aggregatePublicKeys(
+      indices.map((index) => hexToBytes(this.validators[index].publicKey))
+    );
+    return bls12_381.verify(
+      hexToBytes(message.signature.signature),
+      hexToBytes(serializeUnsignedWarpMessage(message.unsignedMessage)),
+      publicKey,
+      { DST: WARP_SIGNATURE_DST }
+    );
+  }
+}
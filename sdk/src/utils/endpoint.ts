@@ -0,0 +1,54 @@
+import { InvalidArgumentError } from '../errors';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// A2A ENDPOINTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * URL schemes accepted for A2A endpoints
+ */
+const ENDPOINT_PROTOCOLS = ['https:', 'http:', 'wss:', 'ws:'] as const;
+
+/**
+ * W3C DID syntax: did:<method>:<method-specific-id>
+ */
+const DID_PATTERN = /^did:[a-z0-9]+:[A-Za-z0-9._:%-]+$/;
+
+/**
+ * Check whether a string is a usable A2A endpoint
+ *
+ * Accepts http(s) and ws(s) URLs with a host, DIDs, and the empty string
+ * (which clears the endpoint on-chain).
+ */
+export function isValidEndpoint(endpoint: string): boolean {
+  if (endpoint === '') {
+    return true;
+  }
+  if (endpoint.startsWith('did:')) {
+    return DID_PATTERN.test(endpoint);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  return (
+    (ENDPOINT_PROTOCOLS as readonly string[]).includes(url.protocol) &&
+    url.hostname !== ''
+  );
+}
+
+/**
+ * Assert that a string is a usable A2A endpoint
+ * @throws InvalidArgumentError if it is not
+ */
+export function validateEndpoint(endpoint: string): void {
+  if (!isValidEndpoint(endpoint)) {
+    throw new InvalidArgumentError(
+      'endpoint',
+      `"${endpoint}" is not an http(s)/ws(s) URL or DID`
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import type { Hash } from 'viem';
+import { keccak256, stringToBytes, zeroHash } from 'viem';
+import { InvalidArgumentError } from '../errors';
+import type { IntegrityStatus, ResolvedDocument } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONTENT HASHES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Serialize a JSON value canonically: object keys sorted, no whitespace
+ *
+ * Follows RFC 8785 (JCS), so the same document hashes the same however its
+ * keys were ordered or formatted.
+ *
+ * @throws InvalidArgumentError for values JSON cannot represent (bigints,
+ * functions, non-finite numbers)
+ */
+export function canonicalizeJson(value: unknown): string {
+  if (
+    value === null ||
+    typeof value === 'boolean' ||
+    typeof value === 'string'
+  ) {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new InvalidArgumentError('value', `${value} is not valid JSON`);
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((item) => canonicalizeJson(item ?? null));
+    return `[${items.join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const toJSON = (value as { toJSON?: unknown }).toJSON;
+    if (typeof toJSON === 'function') {
+      return canonicalizeJson(toJSON.call(value));
+    }
+    const members = Object.entries(value)
+      .filter(([, member]) => member !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(
+        ([key, member]) => `${JSON.stringify(key)}:${canonicalizeJson(member)}`
+      );
+    return `{${members.join(',')}}`;
+  }
+  throw new InvalidArgumentError(
+    'value',
+    `a ${typeof value} is not valid JSON`
+  );
+}
+
+/**
+ * keccak256 of a document's raw bytes (strings are hashed as UTF-8)
+ */
+export function hashDocument(content: Uint8Array | string): Hash {
+  return keccak256(
+    typeof content === 'string' ? stringToBytes(content) : content
+  );
+}
+
+/**
+ * keccak256 of a JSON value's canonical serialization
+ *
+ * Use this for `feedbackHash`, `requestHash` or `responseHash` when the
+ * document is JSON and may be re-serialized before it is stored.
+ */
+export function hashJsonDocument(value: unknown): Hash {
+  return hashDocument(canonicalizeJson(value));
+}
+
+/**
+ * Check a fetched document against the hash committed on-chain
+ *
+ * The document verifies if either its raw bytes or, for JSON, its canonical
+ * serialization hash to `committedHash`. A zero hash commits to nothing.
+ */
+export function verifyDocumentHash(
+  document: Pick<ResolvedDocument, 'bytes' | 'json'>,
+  committedHash: Hash
+): IntegrityStatus {
+  if (committedHash === zeroHash) {
+    return 'unhashed';
+  }
+
+  const expected = committedHash.toLowerCase();
+  if (hashDocument(document.bytes) === expected) {
+    return 'verified';
+  }
+  if (
+    document.json !== undefined &&
+    hashJsonDocument(document.json) === expected
+  ) {
+    return 'verified';
+  }
+  return 'mismatch';
+}
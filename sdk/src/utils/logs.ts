@@ -0,0 +1,163 @@
+import type { Abi, Address, Hash, PublicClient } from 'viem';
+import { toAgentSDKError, withContractErrors } from '../errors';
+import type {
+  ContractEventLog,
+  LogQueryOptions,
+  Unsubscribe,
+  WaitForEventOptions,
+  WatchEventOptions,
+} from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EVENT QUERIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A contract event filter, independent of the client that runs it
+ */
+export interface EventQuery {
+  readonly address: Address;
+  readonly abi: Abi;
+  readonly eventName: string;
+  /**
+   * Values for indexed event parameters, by name; undefined matches any
+   */
+  readonly args?: Record<string, unknown>;
+}
+
+/**
+ * Fetch and decode a contract's past events, oldest first
+ *
+ * The block range defaults to the whole chain; public RPCs often cap
+ * `eth_getLogs` ranges, so pass `fromBlock` there.
+ */
+export async function getContractEventLogs<TEvent>(
+  publicClient: PublicClient,
+  query: EventQuery,
+  options: LogQueryOptions = {}
+): Promise<ContractEventLog<TEvent>[]> {
+  const logs = await withContractErrors(
+    publicClient.getContractEvents({
+      address: query.address,
+      abi: query.abi,
+      eventName: query.eventName,
+      args: definedArgs(query.args),
+      fromBlock: options.fromBlock ?? 'earliest',
+      toBlock: options.toBlock ?? 'latest',
+      strict: true,
+    } as Parameters<PublicClient['getContractEvents']>[0])
+  );
+
+  return logs.map((log) => toEventLog<TEvent>(log));
+}
+
+/**
+ * Wait for the first event matching a query
+ *
+ * Watches new blocks with `eth_subscribe` or polling, and when `fromBlock` is
+ * set also looks back from there, so an event that landed before the watch
+ * started still counts.
+ *
+ * @returns The event, or null if none arrived within `timeout`
+ */
+export function waitForContractEvent<TEvent>(
+  publicClient: PublicClient,
+  query: EventQuery,
+  options: WaitForEventOptions & { readonly timeout: number }
+): Promise<ContractEventLog<TEvent> | null> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let unwatch: (() => void) | undefined;
+
+    const settle = (done: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      unwatch?.();
+      done();
+    };
+
+    const timer = setTimeout(
+      () => settle(() => resolve(null)),
+      options.timeout
+    );
+
+    unwatch = publicClient.watchContractEvent({
+      address: query.address,
+      abi: query.abi,
+      eventName: query.eventName,
+      args: definedArgs(query.args),
+      strict: true,
+      // Left unset, viem subscribes on WebSocket transports and polls otherwise
+      poll: options.strategy ? options.strategy === 'polling' : undefined,
+      pollingInterval: options.pollingInterval,
+      onLogs: (logs) => {
+        if (logs.length > 0) {
+          settle(() => resolve(toEventLog<TEvent>(logs[0])));
+        }
+      },
+      onError: (error) => settle(() => reject(toAgentSDKError(error))),
+    } as Parameters<PublicClient['watchContractEvent']>[0]);
+    if (settled) unwatch();
+
+    if (options.fromBlock !== undefined) {
+      getContractEventLogs<TEvent>(publicClient, query, {
+        fromBlock: options.fromBlock,
+      }).then(
+        (logs) => {
+          if (logs.length > 0) settle(() => resolve(logs[0]));
+        },
+        (error) => settle(() => reject(error))
+      );
+    }
+  });
+}
+
+/**
+ * Call `onEvent` for every new event matching a query, in chain order
+ */
+export function watchContractEventLogs<TEvent>(
+  publicClient: PublicClient,
+  query: EventQuery,
+  onEvent: (log: ContractEventLog<TEvent>) => void,
+  options: WatchEventOptions = {}
+): Unsubscribe {
+  return publicClient.watchContractEvent({
+    address: query.address,
+    abi: query.abi,
+    eventName: query.eventName,
+    args: definedArgs(query.args),
+    strict: true,
+    poll: options.strategy ? options.strategy === 'polling' : undefined,
+    pollingInterval: options.pollingInterval,
+    onLogs: (logs) => {
+      for (const log of logs) onEvent(toEventLog<TEvent>(log));
+    },
+    onError: (error) => options.onError?.(toAgentSDKError(error)),
+  } as Parameters<PublicClient['watchContractEvent']>[0]);
+}
+
+function definedArgs(
+  args: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined {
+  return args
+    ? Object.fromEntries(
+        Object.entries(args).filter(([, value]) => value !== undefined)
+      )
+    : undefined;
+}
+
+function toEventLog<TEvent>(log: {
+  readonly blockNumber: bigint | null;
+  readonly blockHash: Hash | null;
+  readonly transactionHash: Hash | null;
+  readonly logIndex: number | null;
+}): ContractEventLog<TEvent> {
+  return {
+    event: (log as unknown as { args: TEvent }).args,
+    blockNumber: log.blockNumber!,
+    blockHash: log.blockHash!,
+    transactionHash: log.transactionHash!,
+    logIndex: log.logIndex!,
+  };
+}
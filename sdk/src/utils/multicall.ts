@@ -0,0 +1,79 @@
+import type { Abi, Address, PublicClient } from 'viem';
+import { InvalidArgumentError, toAgentSDKError } from '../errors';
+import type { BatchReadOptions, BatchResult } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BATCHED READS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A single view call to include in a batch
+ */
+export interface ContractRead {
+  readonly address: Address;
+  readonly abi: Abi;
+  readonly functionName: string;
+  readonly args?: readonly unknown[];
+}
+
+const DEFAULT_CHUNK_SIZE = 100;
+
+/**
+ * Run view calls through Multicall3 in chunks, one result per call
+ *
+ * A reverting call only fails its own entry. A chunk that fails as a whole
+ * (RPC error, no Multicall3 on the chain) fails every entry in it, so later
+ * chunks still run.
+ *
+ * @returns Results in call order
+ */
+export async function batchReads<T = unknown>(
+  publicClient: PublicClient,
+  reads: readonly ContractRead[],
+  options: BatchReadOptions = {}
+): Promise<BatchResult<T>[]> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new InvalidArgumentError('chunkSize', 'must be a positive integer');
+  }
+
+  const results: BatchResult<T>[] = [];
+  for (let start = 0; start < reads.length; start += chunkSize) {
+    const chunk = reads.slice(start, start + chunkSize);
+    try {
+      const settled = await publicClient.multicall({
+        contracts: chunk as Parameters<
+          PublicClient['multicall']
+        >[0]['contracts'],
+        allowFailure: true,
+        blockNumber: options.blockNumber,
+      });
+      for (const item of settled) {
+        results.push(
+          item.status === 'success'
+            ? { status: 'success', result: item.result as T }
+            : { status: 'failure', error: toAgentSDKError(item.error) }
+        );
+      }
+    } catch (error) {
+      const failure = toAgentSDKError(error);
+      for (let i = 0; i < chunk.length; i++) {
+        results.push({ status: 'failure', error: failure });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Transform a successful result, passing failures through
+ */
+export function mapBatchResult<T, U>(
+  result: BatchResult<T>,
+  map: (value: T) => U
+): BatchResult<U> {
+  return result.status === 'success'
+    ? { status: 'success', result: map(result.result) }
+    : result;
+}
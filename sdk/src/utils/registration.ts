@@ -0,0 +1,470 @@
+import type { Address } from 'viem';
+import { getAddress, isAddress } from 'viem';
+import { InvalidArgumentError, RegistrationFileError } from '../errors';
+import type {
+  RegisteredAgent,
+  RegistrationEndpoint,
+  RegistrationEntry,
+  RegistrationFile,
+  RegistrationIssue,
+  TrustModel,
+} from '../types';
+import { isValidEndpoint } from './endpoint';
+import { encodeJsonDataURI } from './uri';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * `type` value of an EIP-8004 v1 registration file
+ */
+export const REGISTRATION_FILE_TYPE =
+  'https://eips.ethereum.org/EIPS/eip-8004#registration-v1';
+
+export const TRUST_MODELS: readonly TrustModel[] = [
+  'reputation',
+  'crypto-economic',
+  'tee-attestation',
+];
+
+const FILE_FIELDS = [
+  'type',
+  'name',
+  'description',
+  'image',
+  'endpoints',
+  'services',
+  'registrations',
+  'supportedTrust',
+];
+const ENDPOINT_FIELDS = ['name', 'endpoint', 'version'];
+const ENTRY_FIELDS = ['agentId', 'agentRegistry'];
+
+const CAIP10_PATTERN = /^eip155:([1-9][0-9]*):(0x[0-9a-fA-F]{40})$/;
+const ENS_PATTERN = /^([a-z0-9-]+\.)+[a-z0-9-]+$/i;
+const URI_PATTERN = /^[a-z][a-z0-9+.-]*:\S+$/i;
+
+export interface RegistrationValidationOptions {
+  /**
+   * Accept fields the schema does not define (default: false)
+   */
+  readonly allowUnknownFields?: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY ADDRESSES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Format an identity registry as the CAIP-10 `agentRegistry` value
+ */
+export function formatAgentRegistry(
+  chainId: number,
+  identityRegistry: Address
+): string {
+  return `eip155:${chainId}:${getAddress(identityRegistry)}`;
+}
+
+/**
+ * Parse a CAIP-10 `agentRegistry` value
+ *
+ * @returns The chain and address, or null if it is not `eip155:<id>:<address>`
+ */
+export function parseAgentRegistry(
+  agentRegistry: string
+): { chainId: number; identityRegistry: Address } | null {
+  const match = CAIP10_PATTERN.exec(agentRegistry);
+  if (!match || !isAddress(match[2], { strict: false })) {
+    return null;
+  }
+  const chainId = Number(match[1]);
+  if (!Number.isSafeInteger(chainId)) {
+    return null;
+  }
+  return { chainId, identityRegistry: getAddress(match[2]) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * List every way a value fails the registration file schema
+ *
+ * `services` is accepted in place of `endpoints`, but not both.
+ *
+ * @returns Issues in document order (empty if the file is valid)
+ */
+export function getRegistrationFileIssues(
+  value: unknown,
+  options: RegistrationValidationOptions = {}
+): RegistrationIssue[] {
+  const issues: RegistrationIssue[] = [];
+  const report = (path: string, message: string) =>
+    issues.push({ path, message });
+  const strict = !options.allowUnknownFields;
+
+  if (!isRecord(value)) {
+    report('$', 'must be an object');
+    return issues;
+  }
+  if (strict) checkFields(value, FILE_FIELDS, '$', report);
+
+  if (value.type !== REGISTRATION_FILE_TYPE) {
+    report('$.type', `must be "${REGISTRATION_FILE_TYPE}"`);
+  }
+  checkString(value.name, '$.name', report, { nonEmpty: true });
+  checkString(value.description, '$.description', report);
+  if (value.image !== undefined) {
+    checkString(value.image, '$.image', report, { uri: true });
+  }
+
+  const key =
+    'services' in value && !('endpoints' in value) ? 'services' : 'endpoints';
+  if ('services' in value && 'endpoints' in value) {
+    report('$.services', 'cannot be combined with endpoints');
+  }
+  const endpoints = value[key];
+  if (!Array.isArray(endpoints)) {
+    report(`$.${key}`, 'must be an array');
+  } else {
+    endpoints.forEach((entry, i) =>
+      checkEndpoint(entry, `$.${key}[${i}]`, strict, report)
+    );
+  }
+
+  if (!Array.isArray(value.registrations)) {
+    report('$.registrations', 'must be an array');
+  } else {
+    value.registrations.forEach((entry, i) =>
+      checkEntry(entry, `$.registrations[${i}]`, strict, report)
+    );
+  }
+
+  if (value.supportedTrust !== undefined) {
+    if (!Array.isArray(value.supportedTrust)) {
+      report('$.supportedTrust', 'must be an array');
+    } else {
+      const seen = new Set<unknown>();
+      value.supportedTrust.forEach((model, i) => {
+        const path = `$.supportedTrust[${i}]`;
+        if (!TRUST_MODELS.includes(model as TrustModel)) {
+          report(path, `must be one of ${TRUST_MODELS.join(', ')}`);
+        } else if (seen.has(model)) {
+          report(path, `duplicates "${model}"`);
+        }
+        seen.add(model);
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check whether a value is a valid registration file
+ */
+export function isValidRegistrationFile(
+  value: unknown,
+  options?: RegistrationValidationOptions
+): value is RegistrationFile {
+  return getRegistrationFileIssues(value, options).length === 0;
+}
+
+/**
+ * Validate a parsed JSON document as a registration file
+ *
+ * A file using `services` is returned with them under `endpoints`.
+ *
+ * @throws RegistrationFileError listing every issue found
+ */
+export function parseRegistrationFile(
+  value: unknown,
+  options?: RegistrationValidationOptions
+): RegistrationFile {
+  const issues = getRegistrationFileIssues(value, options);
+  if (issues.length > 0) {
+    throw new RegistrationFileError(issues);
+  }
+
+  const { services, ...file } = value as Record<string, unknown>;
+  return (
+    services === undefined ? file : { ...file, endpoints: services }
+  ) as unknown as RegistrationFile;
+}
+
+/**
+ * Assert that a registration file points back to the agent it was resolved
+ * from
+ *
+ * @returns The matching `registrations` entry
+ * @throws RegistrationFileError if no entry names this registry and agent
+ */
+export function validateRegistrationMatch(
+  file: RegistrationFile,
+  agent: RegisteredAgent
+): RegistrationEntry {
+  const match = file.registrations.find((entry) => {
+    const registry = parseAgentRegistry(entry.agentRegistry);
+    return (
+      registry !== null &&
+      registry.chainId === agent.chainId &&
+      registry.identityRegistry === getAddress(agent.identityRegistry) &&
+      BigInt(entry.agentId) === agent.agentId
+    );
+  });
+
+  if (!match) {
+    const registry = formatAgentRegistry(
+      agent.chainId,
+      agent.identityRegistry
+    );
+    throw new RegistrationFileError([
+      {
+        path: '$.registrations',
+        message: `no entry for agent ${agent.agentId} in ${registry}`,
+      },
+    ]);
+  }
+  return match;
+}
+
+type Report = (path: string, message: string) => void;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  known: readonly string[],
+  path: string,
+  report: Report
+): void {
+  for (const field of Object.keys(value)) {
+    if (!known.includes(field)) {
+      report(`${path}.${field}`, 'is not a registration file field');
+    }
+  }
+}
+
+function checkString(
+  value: unknown,
+  path: string,
+  report: Report,
+  rules: { nonEmpty?: boolean; uri?: boolean } = {}
+): value is string {
+  if (typeof value !== 'string') {
+    report(path, 'must be a string');
+    return false;
+  }
+  if (rules.nonEmpty && value.trim() === '') {
+    report(path, 'must not be empty');
+    return false;
+  }
+  if (rules.uri && !URI_PATTERN.test(value)) {
+    report(path, 'must be a URI');
+    return false;
+  }
+  return true;
+}
+
+function checkEndpoint(
+  value: unknown,
+  path: string,
+  strict: boolean,
+  report: Report
+): void {
+  if (!isRecord(value)) {
+    report(path, 'must be an object');
+    return;
+  }
+  if (strict) checkFields(value, ENDPOINT_FIELDS, path, report);
+  if (value.version !== undefined) {
+    checkString(value.version, `${path}.version`, report);
+  }
+
+  const named = checkString(value.name, `${path}.name`, report, {
+    nonEmpty: true,
+  });
+  const endpoint = value.endpoint;
+  if (!checkString(endpoint, `${path}.endpoint`, report, { nonEmpty: true })) {
+    return;
+  }
+
+  const format = named ? endpointFormat(value.name as string) : undefined;
+  if (format && !format.test(endpoint)) {
+    report(`${path}.endpoint`, `must be ${format.description}`);
+  }
+}
+
+function checkEntry(
+  value: unknown,
+  path: string,
+  strict: boolean,
+  report: Report
+): void {
+  if (!isRecord(value)) {
+    report(path, 'must be an object');
+    return;
+  }
+  if (strict) checkFields(value, ENTRY_FIELDS, path, report);
+
+  const { agentId, agentRegistry } = value;
+  if (
+    typeof agentId !== 'number' ||
+    !Number.isSafeInteger(agentId) ||
+    agentId < 0
+  ) {
+    report(`${path}.agentId`, 'must be a non-negative integer');
+  }
+  if (
+    checkString(agentRegistry, `${path}.agentRegistry`, report) &&
+    parseAgentRegistry(agentRegistry) === null
+  ) {
+    report(`${path}.agentRegistry`, 'must be eip155:<chainId>:<address>');
+  }
+}
+
+/**
+ * Format rule for endpoints whose name the schema defines
+ */
+function endpointFormat(
+  name: string
+): { test: (endpoint: string) => boolean; description: string } | undefined {
+  switch (name as RegistrationEndpoint['name']) {
+    case 'A2A':
+    case 'MCP':
+      return {
+        test: (endpoint) =>
+          !endpoint.startsWith('did:') && isValidEndpoint(endpoint),
+        description: 'an http(s)/ws(s) URL',
+      };
+    case 'OASF':
+      return {
+        test: (endpoint) => URI_PATTERN.test(endpoint),
+        description: 'a URI',
+      };
+    case 'ENS':
+      return {
+        test: (endpoint) => ENS_PATTERN.test(endpoint),
+        description: 'an ENS name',
+      };
+    case 'DID':
+      return {
+        test: (endpoint) =>
+          endpoint.startsWith('did:') && isValidEndpoint(endpoint),
+        description: 'a DID',
+      };
+    case 'agentWallet':
+      return {
+        test: (endpoint) => parseAgentRegistry(endpoint) !== null,
+        description: 'a CAIP-10 account (eip155:<chainId>:<address>)',
+      };
+    default:
+      return undefined;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BUILDER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Assembles a registration file and validates it on `build()`
+ *
+ * @example
+ * ```typescript
+ * const file = new RegistrationFileBuilder('Summarizer', 'Summarizes docs')
+ *   .setImage('ipfs://Qm...')
+ *   .addEndpoint('A2A', 'https://agent.example/.well-known/agent-card.json')
+ *   .addTrust('reputation')
+ *   .addRegistration({
+ *     chainId: sdk.chainId,
+ *     identityRegistry: sdk.chain.contracts.identityRegistry,
+ *     agentId: 42n,
+ *   })
+ *   .build();
+ *
+ * await sdk.identity.setAgentURI(42n, encodeRegistrationDataURI(file));
+ * ```
+ */
+export class RegistrationFileBuilder {
+  private readonly name: string;
+  private readonly description: string;
+  private image?: string;
+  private readonly endpoints: RegistrationEndpoint[] = [];
+  private readonly registrations: RegistrationEntry[] = [];
+  private readonly trust: TrustModel[] = [];
+
+  constructor(name: string, description: string) {
+    this.name = name;
+    this.description = description;
+  }
+
+  setImage(image: string): this {
+    this.image = image;
+    return this;
+  }
+
+  addEndpoint(
+    name: RegistrationEndpoint['name'],
+    endpoint: string,
+    version?: string
+  ): this {
+    this.endpoints.push(
+      version === undefined ? { name, endpoint } : { name, endpoint, version }
+    );
+    return this;
+  }
+
+  /**
+   * Advertise trust models (duplicates are ignored)
+   */
+  addTrust(...models: TrustModel[]): this {
+    for (const model of models) {
+      if (!this.trust.includes(model)) this.trust.push(model);
+    }
+    return this;
+  }
+
+  /**
+   * Point the file back at an identity registry entry
+   */
+  addRegistration(agent: RegisteredAgent): this {
+    if (agent.agentId > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new InvalidArgumentError(
+        'agentId',
+        `${agent.agentId} does not fit a JSON number`
+      );
+    }
+    this.registrations.push({
+      agentId: Number(agent.agentId),
+      agentRegistry: formatAgentRegistry(agent.chainId, agent.identityRegistry),
+    });
+    return this;
+  }
+
+  /**
+   * @throws RegistrationFileError if the assembled file is invalid
+   */
+  build(): RegistrationFile {
+    return parseRegistrationFile({
+      type: REGISTRATION_FILE_TYPE,
+      name: this.name,
+      description: this.description,
+      ...(this.image === undefined ? {} : { image: this.image }),
+      endpoints: [...this.endpoints],
+      registrations: [...this.registrations],
+      ...(this.trust.length > 0 ? { supportedTrust: [...this.trust] } : {}),
+    });
+  }
+}
+
+/**
+ * Encode a registration file as a `data:` URI, to store it fully on-chain
+ */
+export function encodeRegistrationDataURI(file: RegistrationFile): string {
+  return encodeJsonDataURI(file);
+}
@@ -0,0 +1,94 @@
+import type { Address, Hash, Hex } from 'viem';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TELEPORTER MESSENGER
+// ═══════════════════════════════════════════════════════════════════════════
+
+const TeleporterMessageComponents = [
+  { name: 'messageNonce', type: 'uint256' },
+  { name: 'originSenderAddress', type: 'address' },
+  { name: 'destinationBlockchainID', type: 'bytes32' },
+  { name: 'destinationAddress', type: 'address' },
+  { name: 'requiredGasLimit', type: 'uint256' },
+  { name: 'allowedRelayerAddresses', type: 'address[]' },
+  {
+    name: 'receipts',
+    type: 'tuple[]',
+    components: [
+      { name: 'receivedMessageNonce', type: 'uint256' },
+      { name: 'relayerRewardAddress', type: 'address' },
+    ],
+  },
+  { name: 'message', type: 'bytes' },
+] as const;
+
+/**
+ * TeleporterMessenger events the cross-chain clients read application
+ * messages from
+ */
+export const TeleporterMessengerABI = [
+  {
+    type: 'event',
+    name: 'SendCrossChainMessage',
+    inputs: [
+      { name: 'messageID', type: 'bytes32', indexed: true },
+      { name: 'destinationBlockchainID', type: 'bytes32', indexed: true },
+      {
+        name: 'message',
+        type: 'tuple',
+        indexed: false,
+        components: TeleporterMessageComponents,
+      },
+      {
+        name: 'feeInfo',
+        type: 'tuple',
+        indexed: false,
+        components: [
+          { name: 'feeTokenAddress', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ReceiveCrossChainMessage',
+    inputs: [
+      { name: 'messageID', type: 'bytes32', indexed: true },
+      { name: 'sourceBlockchainID', type: 'bytes32', indexed: true },
+      { name: 'deliverer', type: 'address', indexed: true },
+      { name: 'rewardRedeemer', type: 'address', indexed: false },
+      {
+        name: 'message',
+        type: 'tuple',
+        indexed: false,
+        components: TeleporterMessageComponents,
+      },
+    ],
+  },
+] as const;
+
+/**
+ * The fields of a Teleporter message envelope the SDK reads
+ */
+export interface TeleporterMessage {
+  readonly originSenderAddress: Address;
+  readonly destinationBlockchainID: Hash;
+  readonly destinationAddress: Address;
+  /**
+   * ABI-encoded application message
+   */
+  readonly message: Hex;
+}
+
+export interface SendCrossChainMessageEvent {
+  readonly messageID: Hash;
+  readonly destinationBlockchainID: Hash;
+  readonly message: TeleporterMessage;
+}
+
+export interface ReceiveCrossChainMessageEvent {
+  readonly messageID: Hash;
+  readonly sourceBlockchainID: Hash;
+  readonly message: TeleporterMessage;
+}
@@ -0,0 +1,302 @@
+import type {
+  Abi,
+  AccessList,
+  Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  Hash,
+  PublicClient,
+  TransactionReceipt as ViemTransactionReceipt,
+  WalletClient,
+} from 'viem';
+import { parseEventLogs } from 'viem';
+import {
+  EventNotFoundError,
+  TransactionRevertedError,
+  WalletRequiredError,
+  withContractErrors,
+} from '../errors';
+import type {
+  EventTransactionResult,
+  TransactionReceipt,
+  TransactionResult,
+} from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECEIPTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Map a viem receipt onto the SDK's TransactionReceipt shape
+ */
+export function toTransactionReceipt(
+  receipt: ViemTransactionReceipt
+): TransactionReceipt {
+  return {
+    blockNumber: receipt.blockNumber,
+    blockHash: receipt.blockHash,
+    transactionHash: receipt.transactionHash,
+    status: receipt.status,
+    gasUsed: receipt.gasUsed,
+  };
+}
+
+/**
+ * Location of a contract event within a receipt
+ */
+export interface EventSource {
+  readonly abi: Abi;
+  readonly address: Address;
+  readonly eventName: string;
+}
+
+/**
+ * Decode the first matching event emitted by `source.address` in a receipt
+ * @throws EventNotFoundError if the event is not present
+ */
+export function getEventArgs<TEvent>(
+  receipt: ViemTransactionReceipt,
+  source: EventSource
+): TEvent {
+  const [log] = parseEventLogs({
+    abi: source.abi,
+    eventName: source.eventName,
+    logs: receipt.logs.filter(
+      (entry) => entry.address.toLowerCase() === source.address.toLowerCase()
+    ),
+  });
+  if (!log) {
+    throw new EventNotFoundError(source.eventName, receipt.transactionHash);
+  }
+  return (log as unknown as { args: TEvent }).args;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WRITES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A contract write, independent of the client that sends it
+ */
+export interface ContractWrite {
+  readonly address: Address;
+  readonly abi: Abi;
+  readonly functionName: string;
+  readonly args: readonly unknown[];
+  readonly accessList?: AccessList;
+}
+
+type WriteName<TAbi extends Abi> = ContractFunctionName<TAbi, 'nonpayable'>;
+
+/**
+ * Run a write through `eth_call` from the wallet's account
+ *
+ * Reverts surface as decoded AgentSDKErrors before anything is signed.
+ *
+ * @returns The value the contract function would return
+ */
+export async function simulateWrite<TResult>(
+  publicClient: PublicClient,
+  wallet: WalletClient,
+  call: ContractWrite
+): Promise<TResult> {
+  const { result } = await withContractErrors(
+    publicClient.simulateContract({
+      ...call,
+      account: wallet.account!,
+      chain: wallet.chain,
+    } as Parameters<PublicClient['simulateContract']>[0])
+  );
+  return result as TResult;
+}
+
+/**
+ * Send a write, simulating it first unless `simulate` is false
+ */
+export async function sendWrite(
+  publicClient: PublicClient,
+  wallet: WalletClient,
+  call: ContractWrite,
+  simulate: boolean
+): Promise<Hash> {
+  if (simulate) {
+    await simulateWrite(publicClient, wallet, call);
+  }
+  return withContractErrors(
+    wallet.writeContract({
+      ...call,
+      account: wallet.account!,
+      chain: wallet.chain,
+    } as Parameters<WalletClient['writeContract']>[0])
+  );
+}
+
+/**
+ * Sends writes to one contract with a client's wallet
+ *
+ * Each registry client holds one, so wallet checks, simulation and event
+ * decoding behave the same across contracts.
+ */
+export class ContractWriter<const TAbi extends Abi> {
+  private readonly publicClient: PublicClient;
+  private readonly walletClient?: WalletClient;
+  private readonly address: Address;
+  private readonly abi: TAbi;
+  private readonly simulateWrites: boolean;
+
+  /**
+   * @param simulateWrites - Run each write through `eth_call` before sending
+   * (default: true)
+   */
+  constructor(
+    publicClient: PublicClient,
+    walletClient: WalletClient | undefined,
+    contract: { readonly address: Address; readonly abi: TAbi },
+    simulateWrites = true
+  ) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.address = contract.address;
+    this.abi = contract.abi;
+    this.simulateWrites = simulateWrites;
+  }
+
+  /**
+   * The wallet writes are signed with
+   * @throws WalletRequiredError if there is no wallet or it has no account
+   */
+  requireWallet(): WalletClient {
+    if (!this.walletClient) {
+      throw new WalletRequiredError('WalletClient required for write operations');
+    }
+    if (!this.walletClient.account) {
+      throw new WalletRequiredError(
+        'WalletClient must have an account for signing'
+      );
+    }
+    return this.walletClient;
+  }
+
+  async write<const TName extends WriteName<TAbi>>(
+    functionName: TName,
+    args: ContractFunctionArgs<TAbi, 'nonpayable', TName>,
+    accessList?: AccessList
+  ): Promise<Hash> {
+    const wallet = this.requireWallet();
+
+    return sendWrite(
+      this.publicClient,
+      wallet,
+      this.call(functionName, args as readonly unknown[], accessList),
+      this.simulateWrites
+    );
+  }
+
+  /**
+   * @returns The value the contract function would return
+   */
+  async simulate<const TName extends WriteName<TAbi>>(
+    functionName: TName,
+    args: ContractFunctionArgs<TAbi, 'nonpayable', TName>,
+    accessList?: AccessList
+  ): Promise<unknown> {
+    const wallet = this.requireWallet();
+
+    return simulateWrite(
+      this.publicClient,
+      wallet,
+      this.call(functionName, args as readonly unknown[], accessList)
+    );
+  }
+
+  /**
+   * Wrap a hash in a result that decodes `eventName` from this contract
+   */
+  eventResult<TEvent>(
+    hash: Hash,
+    eventName: string
+  ): EventTransactionResult<TEvent> {
+    return createEventResult<TEvent>(this.publicClient, hash, {
+      abi: this.abi,
+      address: this.address,
+      eventName,
+    });
+  }
+
+  private call(
+    functionName: string,
+    args: readonly unknown[],
+    accessList?: AccessList
+  ): ContractWrite {
+    return {
+      address: this.address,
+      abi: this.abi,
+      functionName,
+      args,
+      ...(accessList && { accessList }),
+    };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESULTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Wrap a submitted transaction hash in a TransactionResult
+ *
+ * `wait()` resolves the receipt once and caches it, so repeated calls do not
+ * re-poll the node; if fetching the receipt fails (an RPC error or timeout),
+ * the next call polls again. When `decode` is given it runs against the raw viem
+ * receipt (with logs) and its fields are merged into the returned receipt;
+ * a reverted transaction carries no events, so `wait()` rejects instead.
+ *
+ * @param publicClient - Client used to wait for the receipt
+ * @param hash - The submitted transaction hash
+ * @param decode - Optional decoder for domain data carried in the logs
+ */
+export function createTransactionResult<TExtra extends object = object>(
+  publicClient: PublicClient,
+  hash: Hash,
+  decode?: (receipt: ViemTransactionReceipt) => TExtra
+): TransactionResult & {
+  readonly wait: () => Promise<TransactionReceipt & TExtra>;
+} {
+  let pending: Promise<TransactionReceipt & TExtra> | undefined;
+
+  const wait = (): Promise<TransactionReceipt & TExtra> => {
+    pending ??= withContractErrors(
+      publicClient.waitForTransactionReceipt({ hash })
+    ).then(
+      (receipt) => {
+        if (decode && receipt.status === 'reverted') {
+          throw new TransactionRevertedError(hash);
+        }
+        return {
+          ...toTransactionReceipt(receipt),
+          ...(decode ? decode(receipt) : ({} as TExtra)),
+        };
+      },
+      (error: unknown) => {
+        pending = undefined;
+        throw error;
+      }
+    );
+    return pending;
+  };
+
+  return { hash, wait };
+}
+
+/**
+ * Wrap a submitted transaction hash in a result that decodes `source`'s event
+ */
+export function createEventResult<TEvent>(
+  publicClient: PublicClient,
+  hash: Hash,
+  source: EventSource
+): EventTransactionResult<TEvent> {
+  return createTransactionResult(publicClient, hash, (receipt) => ({
+    event: getEventArgs<TEvent>(receipt, source),
+  }));
+}
@@ -0,0 +1,592 @@
+import type { Hash } from 'viem';
+import {
+  AgentSDKError,
+  ContentHashMismatchError,
+  InvalidArgumentError,
+  UriResolutionError,
+  toAgentSDKError,
+} from '../errors';
+import type {
+  BatchResult,
+  FetchedDocument,
+  IntegrityStatus,
+  ResolvedDocument,
+  UriFetchContext,
+  UriHandler,
+  UriResolver,
+} from '../types';
+import { verifyDocumentHash } from './hash';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+const DEFAULT_IPFS_GATEWAYS = ['https://ipfs.io', 'https://dweb.link'];
+const DEFAULT_ARWEAVE_GATEWAY = 'https://arweave.net';
+const DEFAULT_TIMEOUT = 10_000;
+const DEFAULT_MAX_SIZE = 1024 * 1024;
+const DEFAULT_CACHE_SIZE = 100;
+const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+const MAX_REDIRECTS = 5;
+
+export interface DefaultUriResolverOptions {
+  /**
+   * Gateways tried in order for `ipfs://` URIs
+   * (default: ipfs.io, dweb.link)
+   */
+  readonly ipfsGateways?: readonly string[];
+  /**
+   * Gateway for `ar://` URIs (default: https://arweave.net)
+   */
+  readonly arweaveGateway?: string;
+  /**
+   * Extra handlers; one for a built-in scheme replaces the built-in handler
+   */
+  readonly handlers?: readonly UriHandler[];
+  /**
+   * Whether `http(s)://` URIs may be fetched from a host, checked on every
+   * redirect too (default: `isPublicHost`). Gateways are always allowed.
+   */
+  readonly allowHost?: (hostname: string) => boolean;
+  /**
+   * Milliseconds allowed per request (default: 10000)
+   */
+  readonly timeout?: number;
+  /**
+   * Largest document accepted, in bytes (default: 1 MiB)
+   */
+  readonly maxSize?: number;
+  /**
+   * Documents kept in the cache; 0 disables it (default: 100)
+   */
+  readonly cacheSize?: number;
+  /**
+   * Milliseconds a cached document stays valid (default: 5 minutes)
+   */
+  readonly cacheTtl?: number;
+  /**
+   * Fetch implementation (default: the global fetch)
+   */
+  readonly fetch?: typeof globalThis.fetch;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HANDLERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Handler for `https://` and `http://` URIs
+ *
+ * URIs read from a registry are untrusted, so by default only public hosts
+ * are fetched: a URI pointing at loopback, private or link-local addresses
+ * would otherwise let anyone make the resolving service call its own
+ * network.
+ */
+export function createHttpHandler(
+  allowHost: (hostname: string) => boolean = isPublicHost
+): UriHandler {
+  return {
+    schemes: ['https:', 'http:'],
+    fetch: (uri, context) => fetchBytes(uri, uri, context, allowHost),
+  };
+}
+
+/**
+ * Whether a hostname may be public: false for `localhost` and for loopback,
+ * private, link-local, shared and unspecified IP addresses
+ *
+ * Names are not resolved, so one whose DNS record points at a private
+ * address passes; restrict `allowHost` further where that matters.
+ */
+export function isPublicHost(hostname: string): boolean {
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[(.*)\]$/, '$1')
+    .replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return false;
+  }
+
+  const ipv4 = parseIpv4(host);
+  if (ipv4) {
+    return isPublicIpv4(ipv4);
+  }
+  if (!host.includes(':')) {
+    return true;
+  }
+
+  if (host === '::' || host === '::1') {
+    return false;
+  }
+  const mapped = /^::ffff:(?:([0-9a-f]{1,4}):([0-9a-f]{1,4})|(.+))$/.exec(
+    host
+  );
+  if (mapped) {
+    if (mapped[3] !== undefined) {
+      const embedded = parseIpv4(mapped[3]);
+      return embedded ? isPublicIpv4(embedded) : false;
+    }
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPublicIpv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+  // Unique local (fc00::/7) and link-local (fe80::/10)
+  return !/^(f[cd][0-9a-f]{2}|fe[89ab][0-9a-f]):/.test(host);
+}
+
+/**
+ * Handler for `ipfs://<cid>/<path>` URIs, trying each gateway in turn
+ *
+ * A gateway that fails or times out moves on to the next; a document over
+ * the size limit does not, since every gateway serves the same bytes.
+ */
+export function createIpfsHandler(
+  gateways: readonly string[] = DEFAULT_IPFS_GATEWAYS
+): UriHandler {
+  if (gateways.length === 0) {
+    throw new InvalidArgumentError('ipfsGateways', 'must not be empty');
+  }
+
+  return {
+    schemes: ['ipfs:'],
+    fetch: async (uri, context) => {
+      const path = uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+      if (path === '') {
+        throw new InvalidArgumentError('uri', `"${uri}" has no CID`);
+      }
+
+      let failure: unknown;
+      for (const gateway of gateways) {
+        try {
+          return await fetchBytes(
+            `${trimSlash(gateway)}/ipfs/${path}`,
+            uri,
+            context
+          );
+        } catch (error) {
+          if (
+            error instanceof AgentSDKError &&
+            error.code === 'DocumentTooLarge'
+          ) {
+            throw error;
+          }
+          failure = error;
+        }
+      }
+      throw failure;
+    },
+  };
+}
+
+/**
+ * Handler for `ar://<transaction id>` URIs
+ */
+export function createArweaveHandler(
+  gateway: string = DEFAULT_ARWEAVE_GATEWAY
+): UriHandler {
+  return {
+    schemes: ['ar:'],
+    fetch: async (uri, context) => {
+      const id = uri.slice('ar://'.length);
+      if (id === '') {
+        throw new InvalidArgumentError(
+          'uri',
+          `"${uri}" has no transaction id`
+        );
+      }
+      return fetchBytes(`${trimSlash(gateway)}/${id}`, uri, context);
+    },
+  };
+}
+
+/**
+ * Handler for `data:` URIs, decoded in process
+ */
+export function createDataHandler(): UriHandler {
+  return {
+    schemes: ['data:'],
+    fetch: async (uri, context) => {
+      const comma = uri.indexOf(',');
+      if (comma < 0) {
+        throw new UriResolutionError('RequestFailed', uri, 'no data');
+      }
+
+      const meta = uri.slice('data:'.length, comma);
+      const payload = uri.slice(comma + 1);
+      const base64 = /;base64$/i.test(meta);
+      let bytes: Uint8Array;
+      try {
+        bytes = base64
+          ? Uint8Array.from(atob(payload), (char) => char.charCodeAt(0))
+          : new TextEncoder().encode(decodeURIComponent(payload));
+      } catch (error) {
+        throw new UriResolutionError(
+          'RequestFailed',
+          uri,
+          'malformed data',
+          { cause: error }
+        );
+      }
+      checkSize(bytes.length, uri, context.maxSize);
+
+      const contentType = base64 ? meta.slice(0, -';base64'.length) : meta;
+      return { source: 'data:', contentType: contentType || null, bytes };
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESOLVER
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface CacheEntry {
+  readonly expires: number;
+  readonly document: Promise<ResolvedDocument>;
+}
+
+/**
+ * Resolves `ipfs://`, `https://`, `http://`, `data:` and `ar://` URIs
+ *
+ * Fetched documents are cached by URI, and concurrent requests for the same
+ * URI share one fetch. `data:` URIs are decoded on every call.
+ *
+ * @example
+ * ```typescript
+ * const resolver = new DefaultUriResolver({
+ *   ipfsGateways: ['https://my-gateway.example'],
+ *   timeout: 5_000,
+ * });
+ *
+ * const document = await resolver.resolve('ipfs://bafy.../agent.json');
+ * console.log(document.json);
+ * ```
+ */
+export class DefaultUriResolver implements UriResolver {
+  private readonly handlers: ReadonlyMap<string, UriHandler>;
+  private readonly context: UriFetchContext;
+  private readonly cacheSize: number;
+  private readonly cacheTtl: number;
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(options: DefaultUriResolverOptions = {}) {
+    const handlers = new Map<string, UriHandler>();
+    for (const handler of [
+      createHttpHandler(options.allowHost),
+      createIpfsHandler(options.ipfsGateways),
+      createArweaveHandler(options.arweaveGateway),
+      createDataHandler(),
+      ...(options.handlers ?? []),
+    ]) {
+      for (const scheme of handler.schemes) {
+        handlers.set(scheme.toLowerCase(), handler);
+      }
+    }
+
+    this.handlers = handlers;
+    this.context = {
+      timeout: options.timeout ?? DEFAULT_TIMEOUT,
+      maxSize: options.maxSize ?? DEFAULT_MAX_SIZE,
+      fetch: options.fetch ?? ((input, init) => globalThis.fetch(input, init)),
+    };
+    this.cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
+    this.cacheTtl = options.cacheTtl ?? DEFAULT_CACHE_TTL;
+  }
+
+  /**
+   * Fetch the document a URI points to
+   *
+   * @throws InvalidArgumentError for schemes without a handler
+   * @throws UriResolutionError if the fetch fails, times out or the document
+   * exceeds `maxSize`
+   */
+  async resolve(uri: string): Promise<ResolvedDocument> {
+    const scheme = uri.slice(0, uri.indexOf(':') + 1).toLowerCase();
+    const handler = this.handlers.get(scheme);
+    if (!handler) {
+      throw new InvalidArgumentError(
+        'uri',
+        `unsupported scheme "${scheme || uri}"`
+      );
+    }
+
+    if (scheme === 'data:' || this.cacheSize <= 0) {
+      return toResolvedDocument(uri, await handler.fetch(uri, this.context));
+    }
+
+    const cached = this.cache.get(uri);
+    if (cached && cached.expires > Date.now()) {
+      // Refresh the entry's position so the least recently used goes first
+      this.cache.delete(uri);
+      this.cache.set(uri, cached);
+      return cached.document;
+    }
+
+    const document = handler
+      .fetch(uri, this.context)
+      .then((fetched) => toResolvedDocument(uri, fetched));
+    const entry = { expires: Date.now() + this.cacheTtl, document };
+    this.cache.delete(uri);
+    this.cache.set(uri, entry);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    document.catch(() => {
+      if (this.cache.get(uri) === entry) this.cache.delete(uri);
+    });
+    return document;
+  }
+
+  /**
+   * Drop every cached document
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+export interface CommittedDocument {
+  readonly document?: BatchResult<ResolvedDocument>;
+  readonly integrity?: IntegrityStatus;
+}
+
+/**
+ * Resolve a URI read from a registry and check it against its committed hash
+ *
+ * Failures are captured as the document result. A document that does not
+ * match fails with ContentHashMismatchError, so its content is not used by
+ * mistake.
+ *
+ * @returns Neither field for an empty URI, no integrity if the fetch failed
+ */
+export async function resolveCommittedDocument(
+  resolver: UriResolver,
+  uri: string,
+  committedHash: Hash
+): Promise<CommittedDocument> {
+  if (uri === '') {
+    return {};
+  }
+
+  let document: ResolvedDocument;
+  try {
+    document = await resolver.resolve(uri);
+  } catch (error) {
+    return { document: { status: 'failure', error: toAgentSDKError(error) } };
+  }
+
+  const integrity = verifyDocumentHash(document, committedHash);
+  return integrity === 'mismatch'
+    ? {
+        document: {
+          status: 'failure',
+          error: new ContentHashMismatchError(committedHash, document),
+        },
+        integrity,
+      }
+    : { document: { status: 'success', result: document }, integrity };
+}
+
+/**
+ * Encode a JSON value as a base64 `data:` URI, to store it fully on-chain
+ */
+export function encodeJsonDataURI(value: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return `data:application/json;base64,${btoa(binary)}`;
+}
+
+/**
+ * GET a URL with the context's timeout and size limit
+ *
+ * With `allowHost`, redirects are followed here so every hop is checked.
+ */
+async function fetchBytes(
+  url: string,
+  uri: string,
+  context: UriFetchContext,
+  allowHost?: (hostname: string) => boolean
+): Promise<FetchedDocument> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), context.timeout);
+
+  try {
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      if (allowHost) {
+        checkHost(url, uri, allowHost);
+      }
+      response = await context.fetch(url, {
+        signal: controller.signal,
+        redirect: allowHost ? 'manual' : 'follow',
+      });
+
+      const location = response.headers.get('location');
+      if (!allowHost || !isRedirect(response.status) || location === null) {
+        break;
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new UriResolutionError(
+          'RequestFailed',
+          uri,
+          `more than ${MAX_REDIRECTS} redirects`
+        );
+      }
+      await response.body?.cancel();
+      url = new URL(location, url).toString();
+    }
+
+    if (!response.ok) {
+      throw new UriResolutionError(
+        'RequestFailed',
+        uri,
+        `GET ${url} returned HTTP ${response.status}`
+      );
+    }
+
+    const length = response.headers.get('content-length');
+    if (length !== null) {
+      checkSize(Number(length), uri, context.maxSize);
+    }
+
+    return {
+      source: url,
+      contentType: response.headers.get('content-type'),
+      bytes: await readBody(response, uri, context.maxSize),
+    };
+  } catch (error) {
+    if (error instanceof AgentSDKError) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw new UriResolutionError(
+        'Timeout',
+        uri,
+        `no response from ${url} within ${context.timeout}ms`,
+        { cause: error }
+      );
+    }
+    throw new UriResolutionError(
+      'RequestFailed',
+      uri,
+      error instanceof Error ? error.message : String(error),
+      { cause: error }
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Read a response body, stopping as soon as it passes `maxSize`
+ */
+async function readBody(
+  response: Response,
+  uri: string,
+  maxSize: number
+): Promise<Uint8Array> {
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    checkSize(bytes.length, uri, maxSize);
+    return bytes;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxSize) {
+      await reader.cancel();
+      checkSize(total, uri, maxSize);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+function checkHost(
+  url: string,
+  uri: string,
+  allowHost: (hostname: string) => boolean
+): void {
+  const { hostname } = new URL(url);
+  if (!allowHost(hostname)) {
+    throw new UriResolutionError(
+      'RequestFailed',
+      uri,
+      `host "${hostname}" is not allowed`
+    );
+  }
+}
+
+function isRedirect(status: number): boolean {
+  return status >= 300 && status < 400;
+}
+
+function parseIpv4(host: string): number[] | null {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(host);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPublicIpv4([a, b]: readonly number[]): boolean {
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+function checkSize(size: number, uri: string, maxSize: number): void {
+  if (size > maxSize) {
+    throw new UriResolutionError(
+      'DocumentTooLarge',
+      uri,
+      `document exceeds ${maxSize} bytes`
+    );
+  }
+}
+
+function toResolvedDocument(
+  uri: string,
+  fetched: FetchedDocument
+): ResolvedDocument {
+  let text: string | null;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(fetched.bytes);
+  } catch {
+    text = null;
+  }
+
+  let json: unknown;
+  if (text !== null) {
+    try {
+      json = JSON.parse(text);
+    } catch {
+      json = undefined;
+    }
+  }
+
+  return { uri, ...fetched, text, json };
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
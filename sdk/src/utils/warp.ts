@@ -0,0 +1,648 @@
+import type {
+  AccessList,
+  Address,
+  Hash,
+  Hex,
+  Log,
+  TransactionReceipt,
+} from 'viem';
+import {
+  BaseError,
+  bytesToHex,
+  concat,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  getAddress,
+  hexToBytes,
+  numberToHex,
+  padHex,
+  parseEventLogs,
+  sha256,
+  size,
+  slice,
+} from 'viem';
+import { InvalidArgumentError, ProofPayloadError } from '../errors';
+import type {
+  AddressedCall,
+  IdentityProofPayload,
+  ProofPayload,
+  ReputationProofPayload,
+  SignedWarpMessage,
+  UnsignedWarpMessage,
+  ValidationProofPayload,
+} from '../types';
+import { ProofType } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WARP PRECOMPILE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Warp messenger precompile address (same on all Avalanche L1s)
+ */
+export const WARP_PRECOMPILE_ADDRESS =
+  '0x0200000000000000000000000000000000000005' as Address;
+
+export const WarpPrecompileABI = [
+  {
+    type: 'function',
+    name: 'getBlockchainID',
+    inputs: [],
+    outputs: [{ name: 'blockchainID', type: 'bytes32' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getVerifiedWarpMessage',
+    inputs: [{ name: 'index', type: 'uint32' }],
+    outputs: [
+      {
+        name: 'message',
+        type: 'tuple',
+        components: [
+          { name: 'sourceChainID', type: 'bytes32' },
+          { name: 'originSenderAddress', type: 'address' },
+          { name: 'payload', type: 'bytes' },
+        ],
+      },
+      { name: 'valid', type: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'sendWarpMessage',
+    inputs: [{ name: 'payload', type: 'bytes' }],
+    outputs: [{ name: 'messageID', type: 'bytes32' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    name: 'SendWarpMessage',
+    inputs: [
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'messageID', type: 'bytes32', indexed: true },
+      { name: 'message', type: 'bytes', indexed: false },
+    ],
+  },
+] as const;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PREDICATES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Byte appended to a predicate before it is padded into storage keys
+ */
+const PREDICATE_END_BYTE = '0xff';
+
+/**
+ * Pack a signed Warp message into access-list storage keys
+ *
+ * Follows subnet-evm's predicate encoding: the message is terminated with
+ * 0xff and right-padded with zeros to a whole number of 32-byte keys.
+ */
+export function packWarpPredicate(signedMessage: Hex): Hash[] {
+  const packed = concat([signedMessage, PREDICATE_END_BYTE]);
+  const length = Math.ceil(size(packed) / 32) * 32;
+  const padded = padHex(packed, { dir: 'right', size: length });
+
+  return Array.from({ length: length / 32 }, (_, i) =>
+    slice(padded, i * 32, (i + 1) * 32)
+  );
+}
+
+/**
+ * Recover the signed Warp message from packed predicate storage keys
+ * @throws InvalidArgumentError if the keys are not a packed predicate
+ */
+export function unpackWarpPredicate(storageKeys: readonly Hash[]): Hex {
+  const bytes = hexToBytes(concat([...storageKeys]));
+  let end = bytes.length - 1;
+  while (end >= 0 && bytes[end] === 0) {
+    end--;
+  }
+  if (end < 0 || bytes[end] !== 0xff || bytes.length - end > 32) {
+    throw new InvalidArgumentError('Warp predicate', 'missing end byte');
+  }
+
+  return bytesToHex(bytes.subarray(0, end));
+}
+
+/**
+ * Build an access list carrying signed Warp messages as predicates
+ *
+ * The precompile numbers Warp predicates in access-list order, so the message
+ * at position `i` is read with `getVerifiedWarpMessage(i)`.
+ */
+export function createWarpAccessList(
+  signedMessages: readonly Hex[]
+): AccessList {
+  return signedMessages.map((message) => ({
+    address: WARP_PRECOMPILE_ADDRESS,
+    storageKeys: packWarpPredicate(message),
+  }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UNSIGNED MESSAGES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Codec version prefixed to every serialized Warp structure
+ */
+const WARP_CODEC_VERSION = 0;
+
+/**
+ * Codec type ID of the AddressedCall payload
+ */
+const ADDRESSED_CALL_TYPE_ID = 1;
+
+/**
+ * Codec type ID of the BitSetSignature signature
+ */
+const BIT_SET_SIGNATURE_TYPE_ID = 0;
+
+/**
+ * Length of a compressed BLS signature
+ */
+const BLS_SIGNATURE_LENGTH = 96;
+
+/**
+ * Cursor over an Avalanche codec byte string (big-endian, uint32 length prefixes)
+ */
+class CodecReader {
+  private readonly data: Uint8Array;
+  private readonly label: string;
+  private offset = 0;
+
+  constructor(data: Uint8Array, label: string) {
+    this.data = data;
+    this.label = label;
+  }
+
+  uint16(): number {
+    const view = this.take(2);
+    return (view[0] << 8) | view[1];
+  }
+
+  uint32(): number {
+    const view = this.take(4);
+    return ((view[0] << 24) | (view[1] << 16) | (view[2] << 8) | view[3]) >>> 0;
+  }
+
+  fixed(length: number): Hex {
+    return bytesToHex(this.take(length));
+  }
+
+  bytes(): Hex {
+    return this.fixed(this.uint32());
+  }
+
+  version(): void {
+    const version = this.uint16();
+    if (version !== WARP_CODEC_VERSION) {
+      throw new InvalidArgumentError(
+        this.label,
+        `unsupported codec version ${version}`
+      );
+    }
+  }
+
+  end(): void {
+    if (this.offset !== this.data.length) {
+      throw new InvalidArgumentError(
+        this.label,
+        `${this.data.length - this.offset} trailing bytes`
+      );
+    }
+  }
+
+  private take(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new InvalidArgumentError(
+        this.label,
+        `truncated at byte ${this.data.length}`
+      );
+    }
+    const view = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return view;
+  }
+}
+
+/**
+ * Parse a serialized unsigned Warp message
+ * @throws InvalidArgumentError if the bytes are not a codec v0 message
+ */
+export function parseUnsignedWarpMessage(message: Hex): UnsignedWarpMessage {
+  const reader = new CodecReader(hexToBytes(message), 'Warp message');
+  reader.version();
+  const networkId = reader.uint32();
+  const sourceChainId = reader.fixed(32);
+  const payload = reader.bytes();
+  reader.end();
+
+  return { networkId, sourceChainId, payload };
+}
+
+/**
+ * Parse the AddressedCall carried as an unsigned Warp message payload
+ * @throws InvalidArgumentError if the payload is not an AddressedCall
+ */
+export function parseAddressedCall(payload: Hex): AddressedCall {
+  const reader = new CodecReader(hexToBytes(payload), 'AddressedCall');
+  reader.version();
+  const typeId = reader.uint32();
+  if (typeId !== ADDRESSED_CALL_TYPE_ID) {
+    throw new InvalidArgumentError(
+      'AddressedCall',
+      `unexpected payload type ${typeId}`
+    );
+  }
+  const sourceAddress = reader.bytes();
+  const callPayload = reader.bytes();
+  reader.end();
+
+  return { sourceAddress: getAddress(sourceAddress), payload: callPayload };
+}
+
+/**
+ * Encode a codec uint16 or uint32
+ */
+function codecUint(value: number, size: 2 | 4): Hex {
+  return numberToHex(value, { size });
+}
+
+/**
+ * Encode a codec byte slice (uint32 length prefix)
+ */
+function codecBytes(value: Hex): Hex {
+  return concat([codecUint(size(value), 4), value]);
+}
+
+/**
+ * Serialize an unsigned Warp message; its sha256 is the message ID
+ */
+export function serializeUnsignedWarpMessage(
+  message: UnsignedWarpMessage
+): Hex {
+  return concat([
+    codecUint(WARP_CODEC_VERSION, 2),
+    codecUint(message.networkId, 4),
+    message.sourceChainId,
+    codecBytes(message.payload),
+  ]);
+}
+
+/**
+ * Serialize an AddressedCall for use as an unsigned Warp message payload
+ */
+export function serializeAddressedCall(call: AddressedCall): Hex {
+  return concat([
+    codecUint(WARP_CODEC_VERSION, 2),
+    codecUint(ADDRESSED_CALL_TYPE_ID, 4),
+    codecBytes(call.sourceAddress),
+    codecBytes(call.payload),
+  ]);
+}
+
+/**
+ * Wrap a contract's payload in a serialized unsigned Warp message, as the
+ * precompile does for `sendWarpMessage`
+ */
+export function createUnsignedWarpMessage(params: {
+  readonly networkId: number;
+  readonly sourceChainId: Hash;
+  readonly sourceAddress: Address;
+  readonly payload: Hex;
+}): Hex {
+  return serializeUnsignedWarpMessage({
+    networkId: params.networkId,
+    sourceChainId: params.sourceChainId,
+    payload: serializeAddressedCall({
+      sourceAddress: params.sourceAddress,
+      payload: params.payload,
+    }),
+  });
+}
+
+/**
+ * Compute the ID of an unsigned Warp message (sha256 of its bytes)
+ */
+export function getWarpMessageId(message: Hex): Hash {
+  return sha256(message);
+}
+
+/**
+ * A message sent through the Warp precompile, as recorded in its logs
+ */
+export interface SentWarpMessage {
+  readonly sender: Address;
+  readonly messageId: Hash;
+  readonly unsignedMessage: Hex;
+}
+
+/**
+ * Decode every SendWarpMessage log emitted by the Warp precompile
+ */
+export function getSentWarpMessages(logs: readonly Log[]): SentWarpMessage[] {
+  return parseEventLogs({
+    abi: WarpPrecompileABI,
+    eventName: 'SendWarpMessage',
+    logs: logs.filter(
+      (log) =>
+        log.address.toLowerCase() === WARP_PRECOMPILE_ADDRESS.toLowerCase()
+    ),
+  }).map((log) => ({
+    sender: log.args.sender,
+    messageId: log.args.messageID,
+    unsignedMessage: log.args.message,
+  }));
+}
+
+/**
+ * Find the unsigned Warp message with a given ID in a receipt's precompile logs
+ * @returns The serialized message, or undefined if it was not sent
+ */
+export function findWarpMessage(
+  receipt: TransactionReceipt,
+  messageId: Hash
+): Hex | undefined {
+  return getSentWarpMessages(receipt.logs).find(
+    (sent) => sent.messageId.toLowerCase() === messageId.toLowerCase()
+  )?.unsignedMessage;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SIGNED MESSAGES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Serialize a signed Warp message, ready to be packed into a predicate
+ */
+export function serializeSignedWarpMessage(message: SignedWarpMessage): Hex {
+  if (size(message.signature.signature) !== BLS_SIGNATURE_LENGTH) {
+    throw new InvalidArgumentError(
+      'Warp signature',
+      `expected ${BLS_SIGNATURE_LENGTH} bytes`
+    );
+  }
+
+  return concat([
+    serializeUnsignedWarpMessage(message.unsignedMessage),
+    codecUint(BIT_SET_SIGNATURE_TYPE_ID, 4),
+    codecBytes(message.signature.signers),
+    message.signature.signature,
+  ]);
+}
+
+/**
+ * Parse a serialized signed Warp message
+ * @throws InvalidArgumentError if the bytes are not a codec v0 message
+ * with a BitSetSignature
+ */
+export function parseSignedWarpMessage(message: Hex): SignedWarpMessage {
+  const reader = new CodecReader(hexToBytes(message), 'signed Warp message');
+  reader.version();
+  const networkId = reader.uint32();
+  const sourceChainId = reader.fixed(32);
+  const payload = reader.bytes();
+  const typeId = reader.uint32();
+  if (typeId !== BIT_SET_SIGNATURE_TYPE_ID) {
+    throw new InvalidArgumentError(
+      'signed Warp message',
+      `unexpected signature type ${typeId}`
+    );
+  }
+  const signers = reader.bytes();
+  const signature = reader.fixed(BLS_SIGNATURE_LENGTH);
+  reader.end();
+
+  return {
+    unsignedMessage: { networkId, sourceChainId, payload },
+    signature: { signers, signature },
+  };
+}
+
+/**
+ * Encode validator indices as a signer bit set (big-endian, bit i = index i)
+ */
+export function encodeSignerBitSet(indices: readonly number[]): Hex {
+  const bits = indices.reduce((set, index) => set | (1n << BigInt(index)), 0n);
+  if (bits === 0n) {
+    return '0x';
+  }
+  return numberToHex(bits, { size: Math.ceil(bits.toString(2).length / 8) });
+}
+
+/**
+ * Decode a signer bit set into ascending validator indices
+ */
+export function decodeSignerBitSet(signers: Hex): number[] {
+  const bits = size(signers) === 0 ? 0n : BigInt(signers);
+  const indices: number[] = [];
+  for (let index = 0; bits >> BigInt(index) !== 0n; index++) {
+    if ((bits >> BigInt(index)) & 1n) {
+      indices.push(index);
+    }
+  }
+  return indices;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROOF PAYLOADS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Proof schema version encoded by AgentProofEmitter and expected by AgentWarpVerifier
+ */
+export const PROOF_SCHEMA_VERSION = 1;
+
+const PROOF_HEADER_PARAMETERS = [
+  { name: 'schemaVersion', type: 'uint8' },
+  { name: 'proofType', type: 'uint8' },
+] as const;
+
+const IDENTITY_PROOF_PARAMETERS = [
+  ...PROOF_HEADER_PARAMETERS,
+  { name: 'agentId', type: 'uint256' },
+  { name: 'owner', type: 'address' },
+  { name: 'endpoint', type: 'string' },
+  { name: 'timestamp', type: 'uint256' },
+] as const;
+
+const REPUTATION_PROOF_PARAMETERS = [
+  ...PROOF_HEADER_PARAMETERS,
+  { name: 'agentId', type: 'uint256' },
+  { name: 'feedbackCount', type: 'uint64' },
+  { name: 'aggregateScore', type: 'int128' },
+  { name: 'decimals', type: 'uint8' },
+  { name: 'timestamp', type: 'uint256' },
+] as const;
+
+const VALIDATION_PROOF_PARAMETERS = [
+  ...PROOF_HEADER_PARAMETERS,
+  { name: 'agentId', type: 'uint256' },
+  { name: 'validator', type: 'address' },
+  { name: 'response', type: 'uint8' },
+  { name: 'tag', type: 'string' },
+  { name: 'timestamp', type: 'uint256' },
+] as const;
+
+type ProofPayloadOf<TType extends ProofType> = Extract<
+  ProofPayload,
+  { readonly proofType: TType }
+>;
+
+/**
+ * Apply AgentWarpVerifier's header checks, in the same order
+ */
+function checkProofHeader(
+  schemaVersion: number,
+  proofType: number,
+  expectedType?: ProofType
+): void {
+  if (schemaVersion !== PROOF_SCHEMA_VERSION) {
+    throw new ProofPayloadError('UnexpectedSchema', {
+      expected: PROOF_SCHEMA_VERSION,
+      actual: schemaVersion,
+    });
+  }
+  if (expectedType !== undefined && proofType !== expectedType) {
+    throw new ProofPayloadError('UnexpectedProofType', {
+      expected: expectedType,
+      actual: proofType,
+    });
+  }
+}
+
+/**
+ * ABI-encode a proof payload exactly as AgentProofEmitter does
+ * @throws ProofPayloadError if the schema version is not PROOF_SCHEMA_VERSION
+ */
+export function encodeProofPayload(payload: ProofPayload): Hex {
+  checkProofHeader(payload.schemaVersion, payload.proofType, payload.proofType);
+
+  switch (payload.proofType) {
+    case ProofType.IDENTITY:
+      return encodeAbiParameters(IDENTITY_PROOF_PARAMETERS, [
+        payload.schemaVersion,
+        payload.proofType,
+        payload.agentId,
+        payload.owner,
+        payload.endpoint,
+        payload.timestamp,
+      ]);
+    case ProofType.REPUTATION:
+      return encodeAbiParameters(REPUTATION_PROOF_PARAMETERS, [
+        payload.schemaVersion,
+        payload.proofType,
+        payload.agentId,
+        payload.feedbackCount,
+        payload.aggregateScore,
+        payload.decimals,
+        payload.timestamp,
+      ]);
+    case ProofType.VALIDATION:
+      return encodeAbiParameters(VALIDATION_PROOF_PARAMETERS, [
+        payload.schemaVersion,
+        payload.proofType,
+        payload.agentId,
+        payload.validator,
+        payload.response,
+        payload.tag,
+        payload.timestamp,
+      ]);
+  }
+}
+
+/**
+ * Decode a proof payload, rejecting it the way AgentWarpVerifier would
+ *
+ * Pass `expectedType` to check the payload against the `verify*` function it
+ * will be submitted to; without it any known proof type is accepted.
+ *
+ * @throws ProofPayloadError (UnexpectedSchema / UnexpectedProofType) if the
+ * verifier would revert
+ * @throws InvalidArgumentError if the payload is malformed or of an unknown type
+ */
+export function decodeProofPayload<TType extends ProofType>(
+  data: Hex,
+  expectedType: TType
+): ProofPayloadOf<TType>;
+export function decodeProofPayload(data: Hex): ProofPayload;
+export function decodeProofPayload(
+  data: Hex,
+  expectedType?: ProofType
+): ProofPayload {
+  try {
+    const [schemaVersion, proofType] = decodeAbiParameters(
+      PROOF_HEADER_PARAMETERS,
+      data
+    );
+    checkProofHeader(schemaVersion, proofType, expectedType);
+
+    return decodeProofBody(data, proofType);
+  } catch (error) {
+    if (error instanceof BaseError) {
+      throw new InvalidArgumentError('proof payload', error.shortMessage);
+    }
+    throw error;
+  }
+}
+
+function decodeProofBody(data: Hex, proofType: number): ProofPayload {
+  switch (proofType) {
+    case ProofType.IDENTITY: {
+      const [schemaVersion, , agentId, owner, endpoint, timestamp] =
+        decodeAbiParameters(IDENTITY_PROOF_PARAMETERS, data);
+      return {
+        schemaVersion,
+        proofType,
+        agentId,
+        owner,
+        endpoint,
+        timestamp,
+      } satisfies IdentityProofPayload;
+    }
+    case ProofType.REPUTATION: {
+      const [
+        schemaVersion,
+        ,
+        agentId,
+        feedbackCount,
+        aggregateScore,
+        decimals,
+        timestamp,
+      ] = decodeAbiParameters(REPUTATION_PROOF_PARAMETERS, data);
+      return {
+        schemaVersion,
+        proofType,
+        agentId,
+        feedbackCount,
+        aggregateScore,
+        decimals,
+        timestamp,
+      } satisfies ReputationProofPayload;
+    }
+    case ProofType.VALIDATION: {
+      const [schemaVersion, , agentId, validator, response, tag, timestamp] =
+        decodeAbiParameters(VALIDATION_PROOF_PARAMETERS, data);
+      return {
+        schemaVersion,
+        proofType,
+        agentId,
+        validator,
+        response,
+        tag,
+        timestamp,
+      } satisfies ValidationProofPayload;
+    }
+    default:
+      throw new InvalidArgumentError(
+        'proof payload',
+        `unknown proof type ${proofType}`
+      );
+  }
+}
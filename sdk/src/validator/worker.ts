@@ -0,0 +1,415 @@
+import type { Address, Hash } from 'viem';
+import { zeroHash } from 'viem';
+import type {
+  ContractEventLog,
+  ValidationRequest,
+  ValidationRequestedEvent,
+  Unsubscribe,
+  WatchEventOptions,
+} from '../types';
+import { ResponseCode } from '../types';
+import type { AgentSDKError } from '../errors';
+import {
+  ContractRevertError,
+  InvalidArgumentError,
+  isAgentSDKError,
+  toAgentSDKError,
+} from '../errors';
+import type { ValidationRegistryClient } from '../contracts/validation';
+import type { AgentEventWatcher } from '../watch/watcher';
+import { hashJsonDocument } from '../utils/hash';
+import { encodeJsonDataURI } from '../utils/uri';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A validator's verdict on one request
+ */
+export interface ValidationEvaluation {
+  /**
+   * Any code but PENDING
+   */
+  readonly response: ResponseCode;
+  /**
+   * JSON response document; omit to respond without one
+   */
+  readonly responseDoc?: unknown;
+  readonly tag?: string;
+}
+
+/**
+ * What the worker did with a request
+ */
+export interface ValidatorOutcome {
+  readonly requestHash: Hash;
+  readonly response: ResponseCode;
+  readonly responseURI: string;
+  readonly responseHash: Hash;
+  readonly tag: string;
+  /**
+   * The response transaction, or null in dry-run mode
+   */
+  readonly transactionHash: Hash | null;
+}
+
+/**
+ * Persists the last block the worker handled, so it can resume after a
+ * restart
+ */
+export interface ValidatorCheckpoint {
+  load(): Promise<bigint | null>;
+  save(blockNumber: bigint): Promise<void>;
+}
+
+export interface ValidatorWorkerConfig
+  extends Omit<WatchEventOptions, 'onError'> {
+  /**
+   * Address requests must be addressed to (the wallet's account)
+   */
+  readonly validator: Address;
+  /**
+   * Judge a request; `request.requestDocument` holds the fetched and
+   * hash-checked request document
+   */
+  readonly evaluate: (
+    request: ValidationRequest
+  ) => Promise<ValidationEvaluation>;
+  /**
+   * Store a response document and return its URI (default: embed it as a
+   * `data:` URI)
+   */
+  readonly upload?: (
+    document: unknown,
+    request: ValidationRequest
+  ) => Promise<string>;
+  /**
+   * Block to backfill requests from when the checkpoint is empty
+   * (default: only new requests)
+   */
+  readonly fromBlock?: bigint;
+  /**
+   * Saved as requests are handled; never moves past the oldest request that
+   * is still queued or failed with a retryable (RPC or transport) error, so a
+   * restart retries it
+   */
+  readonly checkpoint?: ValidatorCheckpoint;
+  /**
+   * Attempts per request before giving up (default: 3)
+   */
+  readonly maxAttempts?: number;
+  /**
+   * Milliseconds before the first retry, doubled on each one (default: 1000)
+   */
+  readonly retryDelay?: number;
+  /**
+   * Evaluate requests but only log the responses (default: false)
+   */
+  readonly dryRun?: boolean;
+  /**
+   * Receives a line per action taken (default: none, or `console.info` in
+   * dry-run mode)
+   */
+  readonly log?: (message: string) => void;
+  readonly onResponded?: (outcome: ValidatorOutcome) => void;
+  /**
+   * Called when a request fails after every attempt, or the subscription
+   * fails
+   *
+   * The worker moves past a request that reverts or gets an invalid verdict;
+   * other failures are retried on the next event or restart.
+   */
+  readonly onError?: (error: AgentSDKError, requestHash?: Hash) => void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WORKER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Answers validation requests addressed to one validator
+ *
+ * Requests are handled one at a time in chain order: the request is read
+ * with its document, passed to `evaluate`, and the verdict is sent with
+ * `validationResponse`. Requests seen twice, or already answered on-chain,
+ * are skipped, so losing the `RequestAlreadyResponded` race is not an error.
+ *
+ * Anyone can file a request, so its `requestURI` is untrusted: it is fetched
+ * through the SDK's URI resolver, whose `allowHost` check keeps it off
+ * private networks by default.
+ *
+ * @example
+ * ```typescript
+ * const worker = sdk.createValidatorWorker({
+ *   validator: account.address,
+ *   fromBlock: 1_000_000n,
+ *   evaluate: async (request) => ({
+ *     response: ResponseCode.APPROVED,
+ *     responseDoc: { checked: request.requestURI },
+ *     tag: 'audit',
+ *   }),
+ * });
+ *
+ * await worker.start();
+ * ```
+ */
+export class ValidatorWorker {
+  private readonly validation: ValidationRegistryClient;
+  private readonly watch: AgentEventWatcher;
+  private readonly config: ValidatorWorkerConfig;
+  private readonly maxAttempts: number;
+  private readonly retryDelay: number;
+  private readonly log: (message: string) => void;
+
+  /**
+   * Block of each request handled or in flight, until the worker is past it
+   */
+  private readonly seen = new Map<Hash, bigint>();
+  /**
+   * Block of each request queued or failed but not yet answered
+   */
+  private readonly unresolved = new Map<Hash, bigint>();
+  private queue: Promise<void> = Promise.resolve();
+  private highestBlock?: bigint;
+  private savedBlock?: bigint;
+  private unsubscribe?: Unsubscribe;
+
+  constructor(
+    validation: ValidationRegistryClient,
+    watch: AgentEventWatcher,
+    config: ValidatorWorkerConfig
+  ) {
+    this.validation = validation;
+    this.watch = watch;
+    this.config = config;
+    this.maxAttempts = config.maxAttempts ?? 3;
+    this.retryDelay = config.retryDelay ?? 1000;
+    this.log = config.log ?? (config.dryRun ? console.info : () => {});
+
+    if (!Number.isInteger(this.maxAttempts) || this.maxAttempts < 1) {
+      throw new InvalidArgumentError('maxAttempts', 'must be at least 1');
+    }
+  }
+
+  /**
+   * Whether the worker is subscribed to new requests
+   */
+  get isRunning(): boolean {
+    return this.unsubscribe !== undefined;
+  }
+
+  /**
+   * Subscribe to new requests, then queue those since the checkpoint (or
+   * `fromBlock`)
+   *
+   * Resolves once the backlog is queued; use `idle()` to wait for it.
+   */
+  async start(): Promise<void> {
+    if (this.unsubscribe) return;
+
+    const saved = await this.config.checkpoint?.load();
+    // Resume at the saved block itself: requests later in it may be unhandled
+    const fromBlock = saved ?? this.config.fromBlock;
+
+    this.unsubscribe = this.watch.onValidationRequested(
+      (log) => this.enqueue(log),
+      {
+        validator: this.config.validator,
+        strategy: this.config.strategy,
+        pollingInterval: this.config.pollingInterval,
+        onError: (error) => this.config.onError?.(error),
+      }
+    );
+
+    if (fromBlock !== undefined) {
+      try {
+        const backlog = await this.validation.getValidationRequests({
+          validator: this.config.validator,
+          fromBlock,
+        });
+        for (const log of backlog) this.enqueue(log);
+      } catch (error) {
+        this.stop();
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Stop watching for requests (queued ones are still handled)
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * Resolves once every queued request has been handled
+   */
+  async idle(): Promise<void> {
+    let queue: Promise<void>;
+    do {
+      queue = this.queue;
+      await queue;
+    } while (queue !== this.queue);
+  }
+
+  private enqueue(log: ContractEventLog<ValidationRequestedEvent>): void {
+    const { requestHash } = log.event;
+    if (this.seen.has(requestHash)) return;
+    this.seen.set(requestHash, log.blockNumber);
+    if (!this.unresolved.has(requestHash)) {
+      this.unresolved.set(requestHash, log.blockNumber);
+    }
+
+    this.queue = this.queue.then(async () => {
+      try {
+        await this.handle(requestHash);
+        this.unresolved.delete(requestHash);
+      } catch (error) {
+        const failure = toAgentSDKError(error);
+        if (isPermanentFailure(failure)) {
+          this.unresolved.delete(requestHash);
+        } else {
+          // Let a later event or restart try again
+          this.seen.delete(requestHash);
+        }
+        this.config.onError?.(failure, requestHash);
+      }
+      await this.advance(log.blockNumber);
+    });
+  }
+
+  private async handle(requestHash: Hash): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const outcome = await this.respond(requestHash);
+        if (outcome) this.config.onResponded?.(outcome);
+        return;
+      } catch (error) {
+        const failure = toAgentSDKError(error);
+        if (isPermanentFailure(failure) || attempt >= this.maxAttempts) {
+          throw failure;
+        }
+        this.log(
+          `Retrying ${requestHash} (attempt ${attempt + 1}): ${failure.message}`
+        );
+        await sleep(this.retryDelay * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  /**
+   * @returns The outcome, or null if the request was already answered
+   */
+  private async respond(requestHash: Hash): Promise<ValidatorOutcome | null> {
+    const request = await this.validation.getValidationStatus(requestHash, {
+      resolveDocuments: true,
+    });
+    if (request.response !== ResponseCode.PENDING) {
+      this.log(`Skipping ${requestHash}: already answered`);
+      return null;
+    }
+
+    const evaluation = await this.config.evaluate(request);
+    if (evaluation.response === ResponseCode.PENDING) {
+      throw new InvalidArgumentError('response', 'cannot be PENDING');
+    }
+
+    const { response, responseDoc } = evaluation;
+    const tag = evaluation.tag ?? '';
+    const responseHash =
+      responseDoc === undefined ? zeroHash : hashJsonDocument(responseDoc);
+
+    if (this.config.dryRun) {
+      this.log(
+        `[dry run] Would respond ${response} to ${requestHash} ` +
+          `(tag "${tag}", response hash ${responseHash})`
+      );
+      return {
+        requestHash,
+        response,
+        responseURI: '',
+        responseHash,
+        tag,
+        transactionHash: null,
+      };
+    }
+
+    const responseURI =
+      responseDoc === undefined
+        ? ''
+        : this.config.upload
+          ? await this.config.upload(responseDoc, request)
+          : encodeJsonDataURI(responseDoc);
+
+    try {
+      const tx = await this.validation.validationResponse({
+        requestHash,
+        response,
+        responseURI,
+        responseHash,
+        tag,
+      });
+      await tx.wait();
+      this.log(`Responded ${response} to ${requestHash} in ${tx.hash}`);
+      return {
+        requestHash,
+        response,
+        responseURI,
+        responseHash,
+        tag,
+        transactionHash: tx.hash,
+      };
+    } catch (error) {
+      if (isAgentSDKError(error, 'RequestAlreadyResponded')) {
+        this.log(`Skipping ${requestHash}: answered by another transaction`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async advance(blockNumber: bigint): Promise<void> {
+    if (this.highestBlock === undefined || blockNumber > this.highestBlock) {
+      this.highestBlock = blockNumber;
+    }
+
+    // Resuming is inclusive, so stopping at an unresolved request's block
+    // retries it without skipping anything after it
+    let target = this.highestBlock;
+    for (const pending of this.unresolved.values()) {
+      if (pending < target) target = pending;
+    }
+
+    // Requests before the target are done and will not be resumed from
+    for (const [hash, block] of this.seen) {
+      if (block < target) this.seen.delete(hash);
+    }
+
+    if (this.config.dryRun || !this.config.checkpoint) return;
+    if (target === this.savedBlock) return;
+
+    this.savedBlock = target;
+    try {
+      await this.config.checkpoint.save(target);
+    } catch (error) {
+      this.config.onError?.(toAgentSDKError(error));
+    }
+  }
+}
+
+/**
+ * Contract reverts and invalid verdicts fail the same way on retry
+ */
+function isPermanentFailure(error: AgentSDKError): boolean {
+  return (
+    error instanceof ContractRevertError ||
+    isAgentSDKError(error, 'InvalidArgument')
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
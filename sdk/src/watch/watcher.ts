@@ -0,0 +1,179 @@
+import type { PublicClient } from 'viem';
+import type {
+  AgentRegisteredEvent,
+  AgentWalletSetEvent,
+  ContractAddresses,
+  ContractEventLog,
+  FeedbackGivenEvent,
+  FeedbackRevokedEvent,
+  ResponseAppendedEvent,
+  Unsubscribe,
+  ValidationRequestedEvent,
+  ValidationRespondedEvent,
+  WatchAgentRegisteredOptions,
+  WatchAgentWalletSetOptions,
+  WatchFeedbackOptions,
+  WatchValidationRequestedOptions,
+  WatchValidationRespondedOptions,
+} from '../types';
+import { AgentIdentityRegistryABI } from '../contracts/identity';
+import { AgentReputationRegistryABI } from '../contracts/reputation';
+import { AgentValidationRegistryABI } from '../contracts/validation';
+import { watchContractEventLogs } from '../utils/logs';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EVENT WATCHER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Live subscriptions to registry events
+ *
+ * Each `on*` method starts a `watchContractEvent` subscription and returns a
+ * function that stops it. Events are delivered decoded, with the block and
+ * transaction they were emitted in.
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = sdk.watch.onValidationRequested(
+ *   ({ event }) => console.log(`Validate ${event.requestHash}`),
+ *   { validator: account.address }
+ * );
+ *
+ * // Later
+ * unsubscribe();
+ * ```
+ */
+export class AgentEventWatcher {
+  private readonly publicClient: PublicClient;
+  private readonly contracts: Pick<
+    ContractAddresses,
+    'identityRegistry' | 'reputationRegistry' | 'validationRegistry'
+  >;
+
+  constructor(publicClient: PublicClient, contracts: ContractAddresses) {
+    this.publicClient = publicClient;
+    this.contracts = contracts;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // IDENTITY
+  // ═══════════════════════════════════════════════════════════════════════
+
+  onAgentRegistered(
+    callback: (log: ContractEventLog<AgentRegisteredEvent>) => void,
+    options: WatchAgentRegisteredOptions = {}
+  ): Unsubscribe {
+    return watchContractEventLogs(
+      this.publicClient,
+      {
+        address: this.contracts.identityRegistry,
+        abi: AgentIdentityRegistryABI,
+        eventName: 'AgentRegistered',
+        args: { owner: options.owner },
+      },
+      callback,
+      options
+    );
+  }
+
+  onAgentWalletSet(
+    callback: (log: ContractEventLog<AgentWalletSetEvent>) => void,
+    options: WatchAgentWalletSetOptions = {}
+  ): Unsubscribe {
+    return watchContractEventLogs(
+      this.publicClient,
+      {
+        address: this.contracts.identityRegistry,
+        abi: AgentIdentityRegistryABI,
+        eventName: 'AgentWalletSet',
+        args: { agentId: options.agentId },
+      },
+      callback,
+      options
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // REPUTATION
+  // ═══════════════════════════════════════════════════════════════════════
+
+  onFeedbackGiven(
+    callback: (log: ContractEventLog<FeedbackGivenEvent>) => void,
+    options: WatchFeedbackOptions = {}
+  ): Unsubscribe {
+    return this.watchFeedbackEvent('FeedbackGiven', callback, options);
+  }
+
+  onFeedbackRevoked(
+    callback: (log: ContractEventLog<FeedbackRevokedEvent>) => void,
+    options: WatchFeedbackOptions = {}
+  ): Unsubscribe {
+    return this.watchFeedbackEvent('FeedbackRevoked', callback, options);
+  }
+
+  onResponseAppended(
+    callback: (log: ContractEventLog<ResponseAppendedEvent>) => void,
+    options: WatchFeedbackOptions = {}
+  ): Unsubscribe {
+    return this.watchFeedbackEvent('ResponseAppended', callback, options);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // VALIDATION
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Watch for validation requests, e.g. those addressed to one validator
+   */
+  onValidationRequested(
+    callback: (log: ContractEventLog<ValidationRequestedEvent>) => void,
+    options: WatchValidationRequestedOptions = {}
+  ): Unsubscribe {
+    return watchContractEventLogs(
+      this.publicClient,
+      {
+        address: this.contracts.validationRegistry,
+        abi: AgentValidationRegistryABI,
+        eventName: 'ValidationRequested',
+        args: { validator: options.validator, agentId: options.agentId },
+      },
+      callback,
+      options
+    );
+  }
+
+  onValidationResponded(
+    callback: (log: ContractEventLog<ValidationRespondedEvent>) => void,
+    options: WatchValidationRespondedOptions = {}
+  ): Unsubscribe {
+    return watchContractEventLogs(
+      this.publicClient,
+      {
+        address: this.contracts.validationRegistry,
+        abi: AgentValidationRegistryABI,
+        eventName: 'ValidationResponded',
+        args: { requestHash: options.requestHash },
+      },
+      callback,
+      options
+    );
+  }
+
+  private watchFeedbackEvent<TEvent>(
+    eventName: 'FeedbackGiven' | 'FeedbackRevoked' | 'ResponseAppended',
+    callback: (log: ContractEventLog<TEvent>) => void,
+    options: WatchFeedbackOptions
+  ): Unsubscribe {
+    return watchContractEventLogs(
+      this.publicClient,
+      {
+        address: this.contracts.reputationRegistry,
+        abi: AgentReputationRegistryABI,
+        eventName,
+        args: { agentId: options.agentId, client: options.client },
+      },
+      callback,
+      options
+    );
+  }
+}
@@ -1,6 +1,65 @@
-import { describe, it, expect } from 'vitest';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import initSqlJs from 'sql.js';
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  parseAbiParameters,
+  concat,
+  numberToHex,
+  sha256,
+  size,
+  stringToHex,
+} from 'viem';
 import {
   AgentSDK,
+  AgentIdentityRegistryABI,
+  AgentReputationRegistryABI,
+  AgentValidationRegistryABI,
+  CrossChainAgentVerifierABI,
+  AgentWarpVerifierABI,
+  AgentProofEmitterABI,
+  WarpPrecompileABI,
+  TeleporterMessengerABI,
+  WARP_PRECOMPILE_ADDRESS,
+  PROOF_SCHEMA_VERSION,
+  ProofType,
+  encodeProofPayload,
+  decodeProofPayload,
+  packWarpPredicate,
+  unpackWarpPredicate,
+  createUnsignedWarpMessage,
+  serializeSignedWarpMessage,
+  parseSignedWarpMessage,
+  MemoryIndexerStore,
+  SqliteIndexerStore,
+  DefaultUriResolver,
+  isPublicHost,
+  ReputationScorer,
+  excludeRevoked,
+  normalizeDecimals,
+  timeDecay,
+  trimOutliers,
+  bayesianSmoothing,
+  canonicalizeJson,
+  hashDocument,
+  hashJsonDocument,
+  verifyDocumentHash,
+  RegistrationFileBuilder,
+  RegistrationFileError,
+  REGISTRATION_FILE_TYPE,
+  encodeRegistrationDataURI,
+  getRegistrationFileIssues,
+  parseRegistrationFile,
+  validateRegistrationMatch,
+  AgentSDKError,
+  ContractRevertError,
+  isAgentSDKError,
+  isValidEndpoint,
   createFujiConfig,
   createLocalConfig,
   ResponseCode,
@@ -9,6 +68,7 @@ import {
   prepareWalletLink,
   WALLET_LINK_TYPES,
 } from '../src';
+import { LocalWarpAggregator } from '../src/testing';
 
 // Mock addresses for testing
 const MOCK_ADDRESSES = {
@@ -16,6 +76,7 @@ const MOCK_ADDRESSES = {
   reputationRegistry: '0x2222222222222222222222222222222222222222' as const,
   validationRegistry: '0x3333333333333333333333333333333333333333' as const,
   crossChainVerifier: '0x4444444444444444444444444444444444444444' as const,
+  proofEmitter: '0x7777777777777777777777777777777777777777' as const,
 };
 
 describe('SDK Configuration', () => {
@@ -143,5 +204,2288 @@ describe('AgentSDK Class', () => {
 
     expect(sdk.hasCrossChain).toBe(false);
     expect(sdk.crosschain).toBeNull();
+    expect(sdk.hasWarp).toBe(false);
+    expect(sdk.warp).toBeNull();
+  });
+});
+
+describe('Transaction Results', () => {
+  const owner = '0x5555555555555555555555555555555555555555' as const;
+  const txHash = ('0x' + 'ab'.repeat(32)) as `0x${string}`;
+
+  function createMockSDK(
+    logs: readonly unknown[],
+    waitErrors: unknown[] = []
+  ) {
+    const mockPublicClient = {
+      waitForTransactionReceipt: async () => {
+        if (waitErrors.length > 0) throw waitErrors.shift();
+        return {
+          blockNumber: 10n,
+          blockHash: ('0x' + 'cd'.repeat(32)) as `0x${string}`,
+          transactionHash: txHash,
+          status: 'success',
+          gasUsed: 21000n,
+          logs,
+        };
+      },
+      simulateContract: async () => ({ result: undefined }),
+      readContract: async () => 8n,
+    } as never;
+    const mockWalletClient = {
+      account: { address: owner },
+      writeContract: async () => txHash,
+    } as never;
+
+    return new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient,
+      mockWalletClient
+    );
+  }
+
+  it('should decode agentId from the AgentRegistered event', async () => {
+    const sdk = createMockSDK([
+      {
+        address: MOCK_ADDRESSES.identityRegistry,
+        topics: encodeEventTopics({
+          abi: AgentIdentityRegistryABI,
+          eventName: 'AgentRegistered',
+          args: { agentId: 7n, owner },
+        }),
+        data: encodeAbiParameters([{ type: 'string' }], ['ipfs://agent']),
+      },
+    ]);
+
+    const result = await sdk.identity.register({ agentURI: 'ipfs://agent' });
+    expect(result.hash).toBe(txHash);
+
+    // totalAgents() would say 8 here; the event is authoritative
+    const receipt = await result.wait();
+    expect(receipt.agentId).toBe(7n);
+    expect(receipt.event.agentURI).toBe('ipfs://agent');
+    expect(receipt.blockNumber).toBe(10n);
+    expect(receipt.status).toBe('success');
+  });
+
+  it('should poll again after a failed wait', async () => {
+    const sdk = createMockSDK(
+      [
+        {
+          address: MOCK_ADDRESSES.identityRegistry,
+          topics: encodeEventTopics({
+            abi: AgentIdentityRegistryABI,
+            eventName: 'AgentRegistered',
+            args: { agentId: 7n, owner },
+          }),
+          data: encodeAbiParameters([{ type: 'string' }], ['ipfs://agent']),
+        },
+      ],
+      [new Error('request timed out')]
+    );
+
+    const result = await sdk.identity.register({ agentURI: 'ipfs://agent' });
+
+    await expect(result.wait()).rejects.toThrow('request timed out');
+    const receipt = await result.wait();
+    expect(receipt.agentId).toBe(7n);
+    expect(await result.wait()).toBe(receipt);
+  });
+
+  it('should decode the feedback index from FeedbackGiven', async () => {
+    const sdk = createMockSDK([
+      {
+        address: MOCK_ADDRESSES.reputationRegistry,
+        topics: encodeEventTopics({
+          abi: AgentReputationRegistryABI,
+          eventName: 'FeedbackGiven',
+          args: { agentId: 1n, client: owner, index: 3n },
+        }),
+        data: encodeAbiParameters(
+          [{ type: 'int128' }, { type: 'string' }, { type: 'string' }],
+          [85n, 'quality', 'fast']
+        ),
+      },
+    ]);
+
+    const result = await sdk.reputation.giveFeedback({ agentId: 1n, value: 85n });
+    const { event } = await result.wait();
+
+    expect(event.index).toBe(3n);
+    expect(event.value).toBe(85n);
+    expect(event.tag1).toBe('quality');
+  });
+
+  it('should decode requestId from VerificationRequested', async () => {
+    const requestId = ('0x' + 'ef'.repeat(32)) as `0x${string}`;
+    const sdk = createMockSDK([
+      {
+        address: MOCK_ADDRESSES.crossChainVerifier,
+        topics: encodeEventTopics({
+          abi: CrossChainAgentVerifierABI,
+          eventName: 'VerificationRequested',
+          args: { requestId, sourceChain: AvalancheBlockchainId.C_CHAIN },
+        }),
+        data: encodeAbiParameters(
+          [{ type: 'uint256' }, { type: 'address' }],
+          [1n, owner]
+        ),
+      },
+    ]);
+
+    const result = await sdk.crosschain!.verifyAgent({
+      sourceChain: AvalancheBlockchainId.C_CHAIN,
+      agentId: 1n,
+    });
+    const receipt = await result.wait();
+
+    expect(receipt.requestId).toBe(requestId);
+    expect(receipt.event.agentId).toBe(1n);
+  });
+
+  it('should decode the Warp message carrying an emitted proof', async () => {
+    const proof = encodeAbiParameters(
+      [{ type: 'uint8' }, { type: 'uint8' }, { type: 'uint256' }],
+      [1, 1, 3n]
+    );
+    const addressedCall = concat([
+      '0x0000',
+      '0x00000001',
+      numberToHex(20, { size: 4 }),
+      MOCK_ADDRESSES.proofEmitter,
+      numberToHex(size(proof), { size: 4 }),
+      proof,
+    ]);
+    const unsignedMessage = concat([
+      '0x0000',
+      numberToHex(5, { size: 4 }),
+      AvalancheBlockchainId.FUJI_C_CHAIN,
+      numberToHex(size(addressedCall), { size: 4 }),
+      addressedCall,
+    ]);
+    const messageId = sha256(unsignedMessage);
+
+    const sdk = createMockSDK([
+      {
+        address: WARP_PRECOMPILE_ADDRESS,
+        topics: encodeEventTopics({
+          abi: WarpPrecompileABI,
+          eventName: 'SendWarpMessage',
+          args: { sender: MOCK_ADDRESSES.proofEmitter, messageID: messageId },
+        }),
+        data: encodeAbiParameters([{ type: 'bytes' }], [unsignedMessage]),
+      },
+      {
+        address: MOCK_ADDRESSES.proofEmitter,
+        topics: encodeEventTopics({
+          abi: AgentProofEmitterABI,
+          eventName: 'IdentityProofEmitted',
+          args: { agentId: 3n, messageId },
+        }),
+        data: '0x',
+      },
+    ]);
+
+    const result = await sdk.proofEmitter!.emitIdentityProof(3n);
+    const receipt = await result.wait();
+
+    expect(receipt.messageId).toBe(messageId);
+    expect(receipt.unsignedMessage).toBe(unsignedMessage);
+    expect(receipt.warpMessage).toMatchObject({
+      networkId: 5,
+      sourceChainId: AvalancheBlockchainId.FUJI_C_CHAIN,
+    });
+    expect(receipt.addressedCall).toEqual({
+      sourceAddress: MOCK_ADDRESSES.proofEmitter,
+      payload: proof,
+    });
+  });
+});
+
+describe('Contract Errors', () => {
+  function createRevertingSDK(error: unknown) {
+    const mockPublicClient = {
+      simulateContract: async () => {
+        throw error;
+      },
+      readContract: async () => {},
+    } as never;
+    const mockWalletClient = {
+      account: { address: '0x5555555555555555555555555555555555555555' },
+      writeContract: async () => {
+        throw new Error('should not send after a failed simulation');
+      },
+    } as never;
+
+    return new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient,
+      mockWalletClient
+    );
+  }
+
+  it('should decode custom errors into a typed code and args', async () => {
+    const revert = new ContractFunctionRevertedError({
+      abi: AgentIdentityRegistryABI,
+      functionName: 'setAgentWallet',
+      data: encodeErrorResult({
+        abi: AgentIdentityRegistryABI,
+        errorName: 'WalletAlreadySet',
+        args: [4n],
+      }),
+    });
+    const sdk = createRevertingSDK(
+      new ContractFunctionExecutionError(revert, {
+        abi: AgentIdentityRegistryABI,
+        args: [],
+        functionName: 'setAgentWallet',
+      })
+    );
+
+    const error = await sdk.identity
+      .setAgentWallet({
+        agentId: 4n,
+        wallet: '0x6666666666666666666666666666666666666666',
+        deadline: 0n,
+        signature: '0x',
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AgentSDKError);
+    expect(isAgentSDKError(error, 'WalletAlreadySet')).toBe(true);
+    if (isAgentSDKError(error, 'WalletAlreadySet')) {
+      expect(error.args.agentId).toBe(4n);
+    }
+  });
+
+  it('should report a missing wallet with the WalletRequired code', async () => {
+    const sdk = new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      { readContract: async () => {} } as never
+    );
+
+    const error = await sdk.validation
+      .validationResponse({
+        requestHash: ('0x' + '0'.repeat(64)) as `0x${string}`,
+        response: ResponseCode.APPROVED,
+      })
+      .catch((e: unknown) => e);
+
+    expect(isAgentSDKError(error, 'WalletRequired')).toBe(true);
+  });
+});
+
+describe('Write Simulation', () => {
+  const txHash = ('0x' + 'ab'.repeat(32)) as `0x${string}`;
+
+  function createSimulatingSDK(calls: string[], simulateWrites?: boolean) {
+    const mockPublicClient = {
+      simulateContract: async ({ functionName }: { functionName: string }) => {
+        calls.push(`simulate:${functionName}`);
+        return { result: 12n };
+      },
+      readContract: async () => {},
+    } as never;
+    const mockWalletClient = {
+      account: { address: '0x5555555555555555555555555555555555555555' },
+      writeContract: async ({ functionName }: { functionName: string }) => {
+        calls.push(`write:${functionName}`);
+        return txHash;
+      },
+    } as never;
+
+    return new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES), simulateWrites },
+      mockPublicClient,
+      mockWalletClient
+    );
+  }
+
+  it('should simulate before sending by default', async () => {
+    const calls: string[] = [];
+    const sdk = createSimulatingSDK(calls);
+
+    await sdk.identity.setAgentURI(1n, 'ipfs://new');
+
+    expect(calls).toEqual(['simulate:setAgentURI', 'write:setAgentURI']);
+  });
+
+  it('should skip simulation when disabled', async () => {
+    const calls: string[] = [];
+    const sdk = createSimulatingSDK(calls, false);
+
+    await sdk.reputation.revokeFeedback(1n, 0n);
+
+    expect(calls).toEqual(['write:revokeFeedback']);
+  });
+
+  it('should return the simulated agentId without sending', async () => {
+    const calls: string[] = [];
+    const sdk = createSimulatingSDK(calls);
+
+    const agentId = await sdk.identity.simulateRegister({
+      agentURI: 'ipfs://agent',
+    });
+
+    expect(agentId).toBe(12n);
+    expect(calls).toEqual(['simulate:register']);
+  });
+});
+
+describe('Agent Endpoints', () => {
+  it('should accept URLs, DIDs and the empty string', () => {
+    expect(isValidEndpoint('https://agent.example.com/a2a')).toBe(true);
+    expect(isValidEndpoint('wss://agent.example.com')).toBe(true);
+    expect(isValidEndpoint('did:web:agent.example.com')).toBe(true);
+    expect(isValidEndpoint('')).toBe(true);
+  });
+
+  it('should reject malformed or unsupported endpoints', () => {
+    expect(isValidEndpoint('agent.example.com')).toBe(false);
+    expect(isValidEndpoint('ftp://agent.example.com')).toBe(false);
+    expect(isValidEndpoint('did:web')).toBe(false);
+  });
+
+  it('should validate the endpoint before sending', async () => {
+    const calls: string[] = [];
+    const sdk = new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      {
+        simulateContract: async () => {
+          calls.push('simulate');
+          return { result: undefined };
+        },
+      } as never,
+      { account: { address: MOCK_ADDRESSES.identityRegistry } } as never
+    );
+
+    await expect(
+      sdk.identity.setEndpoint(1n, 'not a url')
+    ).rejects.toMatchObject({ code: 'InvalidArgument', argument: 'endpoint' });
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('Warp Verifier', () => {
+  const warpVerifier = '0x6666666666666666666666666666666666666666' as const;
+
+  function createWarpSDK(
+    readContract: (call: { functionName: string }) => unknown
+  ) {
+    const mockPublicClient = {
+      readContract: async (call: { functionName: string }) =>
+        readContract(call),
+    } as never;
+
+    return new AgentSDK(
+      { chain: createLocalConfig({ ...MOCK_ADDRESSES, warpVerifier }) },
+      mockPublicClient
+    );
+  }
+
+  it('should map cached proofs onto typed structs', async () => {
+    const sdk = createWarpSDK(({ functionName }) => {
+      expect(functionName).toBe('reputationProofs');
+      return [12n, -350n, 2, 1_700_000_000n, true];
+    });
+
+    expect(sdk.hasWarp).toBe(true);
+    expect(await sdk.warp!.getReputationProof(1n)).toEqual({
+      feedbackCount: 12n,
+      aggregateScore: -350n,
+      decimals: 2,
+      provenAt: 1_700_000_000n,
+      verified: true,
+    });
+  });
+
+  it('should decode WrongSourceChain reverts', async () => {
+    const expected = ('0x' + '01'.repeat(32)) as `0x${string}`;
+    const actual = ('0x' + '02'.repeat(32)) as `0x${string}`;
+    const data = encodeErrorResult({
+      abi: AgentWarpVerifierABI,
+      errorName: 'WrongSourceChain',
+      args: [expected, actual],
+    });
+    const sdk = createWarpSDK(({ functionName }) => {
+      throw new ContractFunctionExecutionError(
+        new ContractFunctionRevertedError({
+          abi: AgentWarpVerifierABI,
+          data,
+          functionName,
+        }),
+        { abi: AgentWarpVerifierABI, functionName, args: [] }
+      );
+    });
+
+    const error = await sdk.warp!.isVerified(1n).catch((e: unknown) => e);
+
+    expect(isAgentSDKError(error, 'WrongSourceChain')).toBe(true);
+    expect(error).toMatchObject({ args: { expected, actual } });
+  });
+});
+
+describe('Warp Proof Payloads', () => {
+  const reputation = {
+    schemaVersion: PROOF_SCHEMA_VERSION,
+    proofType: ProofType.REPUTATION,
+    agentId: 7n,
+    feedbackCount: 4n,
+    aggregateScore: -125n,
+    decimals: 2,
+    timestamp: 1_700_000_000n,
+  } as const;
+
+  it('should round-trip a payload in the emitter encoding', () => {
+    const data = encodeProofPayload(reputation);
+
+    expect(data).toBe(
+      encodeAbiParameters(
+        [
+          { type: 'uint8' },
+          { type: 'uint8' },
+          { type: 'uint256' },
+          { type: 'uint64' },
+          { type: 'int128' },
+          { type: 'uint8' },
+          { type: 'uint256' },
+        ],
+        [1, 2, 7n, 4n, -125n, 2, 1_700_000_000n]
+      )
+    );
+    expect(decodeProofPayload(data, ProofType.REPUTATION)).toEqual(reputation);
+  });
+
+  it('should reject payloads the verifier would revert on', () => {
+    const data = encodeProofPayload(reputation);
+    const future = encodeAbiParameters(
+      [{ type: 'uint8' }, { type: 'uint8' }, { type: 'uint256' }],
+      [2, 2, 7n]
+    );
+
+    expect(() => decodeProofPayload(data, ProofType.IDENTITY)).toThrow(
+      expect.objectContaining({
+        code: 'UnexpectedProofType',
+        args: { expected: 1, actual: 2 },
+      })
+    );
+    expect(() => decodeProofPayload(future)).toThrow(
+      expect.objectContaining({
+        code: 'UnexpectedSchema',
+        args: { expected: 1, actual: 2 },
+      })
+    );
+  });
+});
+
+describe('Warp Predicates', () => {
+  const warpVerifier = '0x6666666666666666666666666666666666666666' as const;
+  const txHash = ('0x' + 'ab'.repeat(32)) as `0x${string}`;
+  const signedMessage = ('0x' + '5a'.repeat(40)) as `0x${string}`;
+
+  it('should pack messages into 0xff-terminated storage keys', () => {
+    const keys = packWarpPredicate(signedMessage);
+
+    expect(keys).toHaveLength(2);
+    expect(keys[1]).toBe('0x' + '5a'.repeat(8) + 'ff' + '00'.repeat(23));
+    expect(unpackWarpPredicate(keys)).toBe(signedMessage);
+  });
+
+  it('should send verify calls with the message as predicate 0', async () => {
+    const writes: unknown[] = [];
+    const mockPublicClient = {
+      simulateContract: async () => ({ result: 4n }),
+      waitForTransactionReceipt: async () => ({
+        blockNumber: 10n,
+        blockHash: ('0x' + 'cd'.repeat(32)) as `0x${string}`,
+        transactionHash: txHash,
+        status: 'success',
+        gasUsed: 90000n,
+        logs: [
+          {
+            address: warpVerifier,
+            topics: encodeEventTopics({
+              abi: AgentWarpVerifierABI,
+              eventName: 'ReputationVerified',
+              args: { agentId: 4n },
+            }),
+            data: encodeAbiParameters(
+              [{ type: 'uint64' }, { type: 'int128' }],
+              [3n, 250n]
+            ),
+          },
+        ],
+      }),
+    } as never;
+    const mockWalletClient = {
+      account: { address: MOCK_ADDRESSES.identityRegistry },
+      writeContract: async (call: unknown) => {
+        writes.push(call);
+        return txHash;
+      },
+    } as never;
+    const sdk = new AgentSDK(
+      { chain: createLocalConfig({ ...MOCK_ADDRESSES, warpVerifier }) },
+      mockPublicClient,
+      mockWalletClient
+    );
+
+    const result = await sdk.warp!.verifyReputation(signedMessage);
+    const receipt = await result.wait();
+
+    expect(writes[0]).toMatchObject({
+      address: warpVerifier,
+      functionName: 'verifyReputation',
+      args: [0],
+      accessList: [
+        {
+          address: WARP_PRECOMPILE_ADDRESS,
+          storageKeys: packWarpPredicate(signedMessage),
+        },
+      ],
+    });
+    expect(receipt.agentId).toBe(4n);
+    expect(receipt.event.score).toBe(250n);
+  });
+});
+
+describe('Local Warp Aggregator', () => {
+  const unsignedMessage = createUnsignedWarpMessage({
+    networkId: 1337,
+    sourceChainId: AvalancheBlockchainId.FUJI_C_CHAIN,
+    sourceAddress: MOCK_ADDRESSES.proofEmitter,
+    payload: encodeProofPayload({
+      schemaVersion: PROOF_SCHEMA_VERSION,
+      proofType: ProofType.IDENTITY,
+      agentId: 1n,
+      owner: MOCK_ADDRESSES.identityRegistry,
+      endpoint: 'https://agent.example.com',
+      timestamp: 1_700_000_000n,
+    }),
+  });
+  const aggregator = new LocalWarpAggregator({
+    privateKeys: [
+      ('0x' + '01'.repeat(32)) as `0x${string}`,
+      ('0x' + '02'.repeat(32)) as `0x${string}`,
+      ('0x' + '03'.repeat(32)) as `0x${string}`,
+    ],
+  });
+
+  it('should sign with a subset of validators and round-trip', () => {
+    const signed = aggregator.sign(unsignedMessage, [0, 2]);
+    const bytes = serializeSignedWarpMessage(signed);
+
+    expect(signed.signature.signers).toBe('0x05');
+    expect(parseSignedWarpMessage(bytes)).toEqual(signed);
+    expect(aggregator.verify(signed)).toBe(true);
+  });
+
+  it('should reject a signature over a different message', () => {
+    const signed = aggregator.sign(unsignedMessage);
+    const tampered = {
+      ...signed,
+      unsignedMessage: { ...signed.unsignedMessage, networkId: 1 },
+    };
+
+    expect(aggregator.verify(tampered)).toBe(false);
+  });
+});
+
+describe('Registry Responder', () => {
+  const responder = '0x8888888888888888888888888888888888888888' as const;
+  const teleporter = '0x9999999999999999999999999999999999999999' as const;
+  const verifier = '0x4444444444444444444444444444444444444444' as const;
+  const chainA = ('0x' + '0a'.repeat(32)) as `0x${string}`;
+  const chainB = ('0x' + '0b'.repeat(32)) as `0x${string}`;
+  const requestId = ('0x' + 'ef'.repeat(32)) as `0x${string}`;
+
+  function txHashAt(blockNumber: bigint) {
+    return ('0x' + blockNumber.toString(16).padStart(64, '0')) as `0x${string}`;
+  }
+
+  function log(blockNumber: bigint, args: unknown) {
+    return {
+      args,
+      blockNumber,
+      blockHash: txHashAt(0n),
+      transactionHash: txHashAt(blockNumber),
+      logIndex: 0,
+    };
+  }
+
+  function createResponderSDK(events: Record<string, unknown[]>) {
+    const mockPublicClient = {
+      getContractEvents: async ({ eventName }: { eventName: string }) =>
+        events[eventName] ?? [],
+      readContract: async ({
+        functionName,
+        args,
+      }: {
+        functionName: string;
+        args?: unknown[];
+      }) => {
+        if (functionName === 'teleporter') return teleporter;
+        // chain B was revoked after being authorized
+        return args?.[0] === chainA ? verifier : '0x' + '00'.repeat(20);
+      },
+    } as never;
+
+    const chain = createLocalConfig({
+      ...MOCK_ADDRESSES,
+      registryResponder: responder,
+    });
+
+    return new AgentSDK({ chain }, mockPublicClient);
+  }
+
+  it('should list the verifiers currently authorized per chain', async () => {
+    const sdk = createResponderSDK({
+      VerifierAuthorized: [
+        log(5n, { chainId: chainA, verifier: MOCK_ADDRESSES.identityRegistry }),
+        log(6n, { chainId: chainB, verifier }),
+        log(7n, { chainId: chainA, verifier }),
+      ],
+    });
+
+    expect(await sdk.responder!.listAuthorizedVerifiers()).toEqual([
+      { chainId: chainA, verifier, authorizedAtBlock: 7n },
+    ]);
+  });
+
+  it('should attribute queries to the delivering verifier', async () => {
+    const otherRequestId = ('0x' + 'cd'.repeat(32)) as `0x${string}`;
+    const delivery = (id: `0x${string}`, chain: `0x${string}`) =>
+      log(9n, {
+        sourceBlockchainID: chain,
+        message: {
+          originSenderAddress: verifier,
+          destinationAddress: responder,
+          message: encodeAbiParameters(parseAbiParameters('uint8, bytes32'), [
+            1,
+            id,
+          ]),
+        },
+      });
+    // One relayer transaction delivers queries from two chains
+    const sdk = createResponderSDK({
+      VerificationQueryReceived: [
+        log(9n, { requestId: otherRequestId, agentId: 3n }),
+        log(9n, { requestId, agentId: 3n }),
+        log(10n, { requestId, agentId: 4n }),
+      ],
+      ReceiveCrossChainMessage: [
+        delivery(requestId, chainA),
+        delivery(otherRequestId, chainB),
+      ],
+    });
+
+    const queries = await sdk.responder!.getVerificationQueries({
+      agentId: 3n,
+    });
+
+    expect(queries.map((query) => query.sourceChain)).toEqual([
+      chainB,
+      chainA,
+    ]);
+    expect(queries[1]).toEqual({
+      kind: 'verification',
+      requestId,
+      agentId: 3n,
+      sourceChain: chainA,
+      verifier,
+      blockNumber: 9n,
+      transactionHash: txHashAt(9n),
+    });
+  });
+});
+
+describe('Cross-Chain Round Trips', () => {
+  const requestId = ('0x' + 'ab'.repeat(32)) as `0x${string}`;
+  const sourceChain = ('0x' + '0a'.repeat(32)) as `0x${string}`;
+  const owner = '0x5555555555555555555555555555555555555555' as const;
+
+  function log(args: unknown, blockNumber = 12n) {
+    return {
+      args,
+      blockNumber,
+      blockHash: requestId,
+      transactionHash: requestId,
+      logIndex: 0,
+    };
+  }
+
+  // The Teleporter message queryReputation sends for `requestId`
+  function sendLog() {
+    const [, , message, feeInfo] = TeleporterMessengerABI[0].inputs;
+    return {
+      topics: encodeEventTopics({
+        abi: TeleporterMessengerABI,
+        eventName: 'SendCrossChainMessage',
+        args: { messageID: requestId, destinationBlockchainID: sourceChain },
+      }),
+      data: encodeAbiParameters(
+        [message, feeInfo],
+        [
+          {
+            messageNonce: 1n,
+            originSenderAddress: MOCK_ADDRESSES.crossChainVerifier,
+            destinationBlockchainID: sourceChain,
+            destinationAddress: owner,
+            requiredGasLimit: 200_000n,
+            allowedRelayerAddresses: [],
+            receipts: [],
+            message: encodeAbiParameters(
+              parseAbiParameters(
+                'uint8, bytes32, uint256, address[], string, string'
+              ),
+              [3, requestId, 7n, [owner], 'quality', '']
+            ),
+          },
+          { feeTokenAddress: owner, amount: 0n },
+        ]
+      ),
+    };
+  }
+
+  function createRoundTripSDK(options: {
+    past?: Record<string, unknown[]>;
+    live?: unknown[];
+    unwatched?: () => void;
+  }) {
+    const mockPublicClient = {
+      getContractEvents: async ({ eventName }: { eventName: string }) =>
+        options.past?.[eventName] ?? [],
+      watchContractEvent: ({
+        onLogs,
+      }: {
+        onLogs: (logs: unknown[]) => void;
+      }) => {
+        if (options.live) setTimeout(() => onLogs(options.live!), 0);
+        return options.unwatched ?? (() => {});
+      },
+      getTransactionReceipt: async () => ({ logs: [sendLog()] }),
+      readContract: async () => ({
+        exists: true,
+        owner,
+        agentURI: 'ipfs://agent',
+        reputationScore: 80n,
+        feedbackCount: 4n,
+      }),
+    } as never;
+
+    return new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient
+    );
+  }
+
+  it('should pick up a response that landed before waiting', async () => {
+    const sdk = createRoundTripSDK({
+      past: {
+        VerificationReceived: [
+          log({ requestId, exists: true, reputationScore: 80n }),
+        ],
+      },
+    });
+
+    const result = await sdk.crosschain!.waitForVerification(requestId, {
+      fromBlock: 10n,
+    });
+
+    expect(result.owner).toBe(owner);
+    expect(result.feedbackCount).toBe(4n);
+  });
+
+  it('should resolve with the watched reputation response', async () => {
+    let unwatched = false;
+    const sdk = createRoundTripSDK({
+      past: {
+        ReputationQueried: [log({ requestId, sourceChain, agentId: 7n }, 9n)],
+      },
+      live: [log({ requestId, feedbackCount: 4n, aggregateScore: 320n })],
+      unwatched: () => (unwatched = true),
+    });
+
+    const result = await sdk.crosschain!.waitForReputation(requestId, {
+      strategy: 'polling',
+    });
+
+    expect(result.aggregateScore).toBe(320n);
+    expect(unwatched).toBe(true);
+  });
+
+  it('should time out with the request ID to resume from', async () => {
+    const sdk = createRoundTripSDK({});
+
+    const error = await sdk
+      .crosschain!.waitForVerification(requestId, {
+        timeout: 5,
+        fromBlock: 10n,
+      })
+      .catch((err: unknown) => err);
+
+    expect(isAgentSDKError(error, 'Timeout')).toBe(true);
+    expect(error).toMatchObject({ requestId, fromBlock: 10n });
+  });
+
+  it('should return reputation results with the query sent', async () => {
+    const sdk = createRoundTripSDK({
+      past: {
+        ReputationQueried: [log({ requestId, sourceChain, agentId: 7n }, 9n)],
+        ReputationReceived: [
+          log({ requestId, feedbackCount: 4n, aggregateScore: 320n }),
+        ],
+      },
+    });
+
+    expect(await sdk.crosschain!.getReputationResult(requestId)).toEqual({
+      requestId,
+      feedbackCount: 4n,
+      aggregateScore: 320n,
+      query: {
+        sourceChain,
+        agentId: 7n,
+        clients: [owner],
+        tag1: 'quality',
+        tag2: '',
+      },
+      blockNumber: 12n,
+    });
+  });
+
+  it('should return null while a reputation query is pending', async () => {
+    const sdk = createRoundTripSDK({});
+
+    expect(await sdk.crosschain!.getReputationResult(requestId)).toBeNull();
+  });
+});
+
+describe('Agent Indexer', () => {
+  const owner = '0x5555555555555555555555555555555555555555' as const;
+  let SQL: Awaited<ReturnType<typeof initSqlJs>>;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  /**
+   * Adapt sql.js to the synchronous driver interface the store expects
+   */
+  function openSqlite() {
+    const db = new SQL.Database();
+    return {
+      exec: (sql: string) => db.exec(sql),
+      prepare: (sql: string) => ({
+        run: (...params: (string | number | null)[]) => db.run(sql, params),
+        all: (...params: (string | number | null)[]) => {
+          const statement = db.prepare(sql);
+          statement.bind(params);
+          const rows: unknown[] = [];
+          while (statement.step()) rows.push(statement.getAsObject());
+          statement.free();
+          return rows;
+        },
+      }),
+    };
+  }
+
+  const stores = [
+    ['memory', () => new MemoryIndexerStore()],
+    ['SQLite', () => new SqliteIndexerStore(openSqlite())],
+  ] as const;
+
+  function hashOf(blockNumber: bigint, fork = 0) {
+    return ('0x' +
+      fork.toString(16).padStart(2, '0') +
+      blockNumber.toString(16).padStart(62, '0')) as `0x${string}`;
+  }
+
+  function createChain(head: bigint) {
+    const chain = {
+      head,
+      forks: new Map<bigint, number>(),
+      logs: [] as {
+        address: `0x${string}`;
+        eventName: string;
+        args: Record<string, unknown>;
+        blockNumber: bigint;
+        logIndex: number;
+      }[],
+      ranges: [] as [bigint, bigint][],
+      onGetLogs: undefined as (() => void) | undefined,
+    };
+    const blockHash = (n: bigint) => hashOf(n, chain.forks.get(n) ?? 0);
+
+    const publicClient = {
+      getBlockNumber: async () => chain.head,
+      getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({
+        hash: blockHash(blockNumber),
+      }),
+      getLogs: async ({
+        fromBlock,
+        toBlock,
+      }: {
+        fromBlock: bigint;
+        toBlock: bigint;
+      }) => {
+        chain.ranges.push([fromBlock, toBlock]);
+        const logs = chain.logs
+          .filter(
+            (l) => l.blockNumber >= fromBlock && l.blockNumber <= toBlock
+          )
+          .map((l) => ({
+            ...l,
+            blockHash: blockHash(l.blockNumber),
+            transactionHash: blockHash(l.blockNumber),
+          }));
+        chain.onGetLogs?.();
+        return logs;
+      },
+    } as never;
+
+    const sdk = new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      publicClient
+    );
+    return { chain, sdk };
+  }
+
+  function registered(agentId: bigint, blockNumber: bigint) {
+    return {
+      address: MOCK_ADDRESSES.identityRegistry,
+      eventName: 'AgentRegistered',
+      args: { agentId, owner, agentURI: `ipfs://${agentId}` },
+      blockNumber,
+      logIndex: 0,
+    };
+  }
+
+  describe.each(stores)('with the %s store', (_, createStore) => {
+    it('should backfill in chunks and filter stored events', async () => {
+      const { chain, sdk } = createChain(7n);
+      chain.logs.push(registered(1n, 2n), registered(2n, 6n), {
+        address: MOCK_ADDRESSES.reputationRegistry,
+        eventName: 'FeedbackGiven',
+        args: { agentId: 2n, client: owner, index: 0n },
+        blockNumber: 7n,
+        logIndex: 1,
+      });
+
+      const indexer = sdk.createIndexer({
+        store: createStore(),
+        chunkSize: 3n,
+      });
+
+      expect(await indexer.sync()).toEqual({ number: 7n, hash: hashOf(7n) });
+      expect(chain.ranges).toEqual([
+        [0n, 2n],
+        [3n, 5n],
+        [6n, 7n],
+      ]);
+
+      const events = await indexer.getEvents({ agentId: 2n });
+      expect(events.map((e) => [e.contract, e.eventName])).toEqual([
+        ['identityRegistry', 'AgentRegistered'],
+        ['reputationRegistry', 'FeedbackGiven'],
+      ]);
+    });
+
+    it('should roll back to the fork point after a reorg', async () => {
+      const { chain, sdk } = createChain(7n);
+      chain.logs.push(registered(1n, 2n), registered(2n, 6n));
+
+      const reorgs: unknown[] = [];
+      const indexer = sdk.createIndexer({
+        store: createStore(),
+        chunkSize: 3n,
+        onReorg: (block) => reorgs.push(block),
+      });
+      await indexer.sync();
+
+      // Blocks 6 and 7 are replaced; agent 2 moves to block 7 on the new fork
+      chain.forks.set(6n, 1).set(7n, 1);
+      chain.logs[1] = registered(3n, 7n);
+      chain.head = 8n;
+
+      await indexer.sync();
+
+      expect(reorgs).toEqual([{ number: 5n, hash: hashOf(5n) }]);
+      const events = await indexer.getEvents({ eventName: 'AgentRegistered' });
+      expect(events.map((e) => [e.agentId, e.blockHash])).toEqual([
+        [1n, hashOf(2n)],
+        [3n, hashOf(7n, 1)],
+      ]);
+    });
+
+    it('should resume from the stored cursor', async () => {
+      const { chain, sdk } = createChain(4n);
+      chain.logs.push(registered(1n, 2n), registered(2n, 6n));
+      const store = createStore();
+
+      await sdk.createIndexer({ store, chunkSize: 10n }).sync();
+      chain.head = 7n;
+      await sdk.createIndexer({ store, chunkSize: 10n }).sync();
+
+      expect(chain.ranges).toEqual([
+        [0n, 4n],
+        [5n, 7n],
+      ]);
+      const events = await store.getEvents({ eventName: 'AgentRegistered' });
+      expect(events.map((e) => e.agentId)).toEqual([1n, 2n]);
+    });
+
+    it('should refetch a chunk reorged while its logs were read', async () => {
+      const { chain, sdk } = createChain(7n);
+      chain.logs.push(registered(1n, 6n));
+      chain.onGetLogs = () => {
+        chain.forks.set(6n, 1).set(7n, 1);
+        chain.onGetLogs = undefined;
+      };
+
+      const indexer = sdk.createIndexer({
+        store: createStore(),
+        chunkSize: 10n,
+      });
+
+      expect(await indexer.sync()).toEqual({ number: 7n, hash: hashOf(7n, 1) });
+      const events = await indexer.getEvents();
+      expect(events.map((e) => e.blockHash)).toEqual([hashOf(6n, 1)]);
+    });
+  });
+});
+
+describe('Feedback Listing', () => {
+  const alice = '0x5555555555555555555555555555555555555555' as const;
+  const bob = '0x6666666666666666666666666666666666666666' as const;
+
+  const zeroHash = ('0x' + '00'.repeat(32)) as `0x${string}`;
+
+  function log(
+    client: `0x${string}`,
+    index: bigint,
+    tag1: string,
+    blockNumber: bigint
+  ) {
+    return {
+      args: { agentId: 42n, client, index, tag1, tag2: '' },
+      blockNumber,
+      blockHash: zeroHash,
+      transactionHash: zeroHash,
+      logIndex: 0,
+    };
+  }
+
+  function createFeedbackSDK(
+    reads: unknown[][],
+    queries: unknown[] = [],
+    failing?: `0x${string}`
+  ) {
+    const mockPublicClient = {
+      getContractEvents: async ({
+        eventName,
+        fromBlock,
+        toBlock,
+      }: {
+        eventName: string;
+        fromBlock?: bigint;
+        toBlock?: bigint;
+      }) => {
+        queries.push({ eventName, fromBlock, toBlock });
+        return eventName === 'FeedbackGiven'
+          ? [
+              log(alice, 0n, 'quality', 1n),
+              log(bob, 0n, 'speed', 2n),
+              log(alice, 1n, 'quality', 3n),
+              log(bob, 1n, 'quality', 4n),
+            ]
+          : [log(alice, 1n, '', 5n)];
+      },
+      multicall: async ({
+        contracts,
+      }: {
+        contracts: { args: unknown[] }[];
+      }) => {
+        reads.push(...contracts.map((c) => c.args));
+        return contracts.map(({ args: [, client, index] }) =>
+          client === failing
+            ? { status: 'failure', error: new Error('execution reverted') }
+            : {
+                status: 'success',
+                result: {
+                  client,
+                  value: 90n,
+                  valueDecimals: 0,
+                  tag1: 'quality',
+                  tag2: '',
+                  endpoint: '',
+                  feedbackURI: '',
+                  feedbackHash: zeroHash,
+                  responseURI: '',
+                  responseHash: zeroHash,
+                  timestamp: index,
+                  revoked: false,
+                },
+              }
+        );
+      },
+    } as never;
+
+    return new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient
+    );
+  }
+
+  it('should page through matching feedback from every client', async () => {
+    const reads: unknown[][] = [];
+    const sdk = createFeedbackSDK(reads);
+
+    const first = await sdk.reputation.listFeedback(42n, {
+      tag1: 'quality',
+      limit: 1,
+    });
+    const second = await sdk.reputation.listFeedback(42n, {
+      tag1: 'quality',
+      limit: 1,
+      offset: first.nextOffset!,
+    });
+
+    // alice's second feedback was revoked and the speed entry is filtered
+    expect(first.total).toBe(2);
+    expect(first.items[0]).toMatchObject({ client: alice, index: 0n });
+    expect(second.items[0]).toMatchObject({ client: bob, index: 1n });
+    expect(second.nextOffset).toBeNull();
+    expect(reads).toEqual([
+      [42n, alice, 0n],
+      [42n, bob, 1n],
+    ]);
+  });
+
+  it('should include revoked feedback on request', async () => {
+    const sdk = createFeedbackSDK([]);
+
+    const page = await sdk.reputation.listFeedback(42n, {
+      includeRevoked: true,
+    });
+
+    expect(page.total).toBe(4);
+    expect(page.items.map((item) => item.blockNumber)).toEqual([
+      1n, 2n, 3n, 4n,
+    ]);
+  });
+
+  it('should query revocations up to the latest block', async () => {
+    const queries: unknown[] = [];
+    const sdk = createFeedbackSDK([], queries);
+
+    await sdk.reputation.listFeedback(42n, { fromBlock: 1n, toBlock: 3n });
+
+    expect(queries).toEqual([
+      { eventName: 'FeedbackGiven', fromBlock: 1n, toBlock: 3n },
+      { eventName: 'FeedbackRevoked', fromBlock: 1n, toBlock: 'latest' },
+    ]);
+  });
+
+  it('should report entries that fail to read individually', async () => {
+    const sdk = createFeedbackSDK([], [], bob);
+
+    const page = await sdk.reputation.listFeedback(42n, {
+      includeRevoked: true,
+    });
+
+    expect(page.items.map((item) => item.client)).toEqual([alice, alice]);
+    expect(page.failures).toEqual([
+      expect.objectContaining({ client: bob, index: 0n }),
+      expect.objectContaining({ client: bob, index: 1n }),
+    ]);
+    expect(isAgentSDKError(page.failures[0].error)).toBe(true);
+  });
+});
+
+describe('Batched Reads', () => {
+  const owner = '0x5555555555555555555555555555555555555555' as const;
+
+  function nonexistentToken(agentId: bigint) {
+    return new ContractFunctionExecutionError(
+      new ContractFunctionRevertedError({
+        abi: AgentIdentityRegistryABI,
+        functionName: 'ownerOf',
+        data: encodeErrorResult({
+          abi: AgentIdentityRegistryABI,
+          errorName: 'ERC721NonexistentToken',
+          args: [agentId],
+        }),
+      }),
+      {
+        abi: AgentIdentityRegistryABI,
+        args: [agentId],
+        functionName: 'ownerOf',
+      }
+    );
+  }
+
+  function createBatchSDK(chunks: number[], failChunk?: number) {
+    const values: Record<string, unknown> = {
+      ownerOf: owner,
+      tokenURI: 'ipfs://agent',
+      getAgentWallet: '0x' + '00'.repeat(20),
+      getEndpoint: 'https://agent.example',
+    };
+    const mockPublicClient = {
+      multicall: async ({
+        contracts,
+      }: {
+        contracts: { functionName: string; args: [bigint] }[];
+      }) => {
+        chunks.push(contracts.length);
+        if (chunks.length === failChunk) throw new Error('rate limited');
+        return contracts.map(({ functionName, args: [agentId] }) =>
+          agentId === 2n
+            ? { status: 'failure', error: nonexistentToken(agentId) }
+            : { status: 'success', result: values[functionName] }
+        );
+      },
+    } as never;
+
+    return new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient
+    );
+  }
+
+  it('should report a missing agent without failing the batch', async () => {
+    const chunks: number[] = [];
+    const sdk = createBatchSDK(chunks);
+
+    const [first, missing] = await sdk.identity.getAgents([1n, 2n], {
+      chunkSize: 3,
+    });
+
+    expect(chunks).toEqual([3, 3, 2]);
+    expect(first).toEqual({
+      status: 'success',
+      result: {
+        agentId: 1n,
+        owner,
+        agentURI: 'ipfs://agent',
+        wallet: '0x' + '00'.repeat(20),
+        endpoint: 'https://agent.example',
+      },
+    });
+    expect(missing.status).toBe('failure');
+    if (missing.status === 'failure') {
+      expect(isAgentSDKError(missing.error, 'ERC721NonexistentToken')).toBe(
+        true
+      );
+    }
+  });
+
+  it('should fail only the entries of a chunk that errored', async () => {
+    const sdk = createBatchSDK([], 1);
+
+    const results = await sdk.identity.getAgents([1n, 3n], { chunkSize: 4 });
+
+    expect(results.map((result) => result.status)).toEqual([
+      'failure',
+      'success',
+    ]);
+  });
+});
+
+describe('Agent Profile', () => {
+  const owner = '0x5555555555555555555555555555555555555555' as const;
+  const client = '0x6666666666666666666666666666666666666666' as const;
+  const registration = new RegistrationFileBuilder('Agent 42', 'Test agent')
+    .addRegistration({
+      chainId: createLocalConfig(MOCK_ADDRESSES).chainId,
+      identityRegistry: MOCK_ADDRESSES.identityRegistry,
+      agentId: 42n,
+    })
+    .build();
+  const agentURI = encodeRegistrationDataURI(registration);
+
+  function createProfileSDK(exists: boolean | Error = true) {
+    const summaries: unknown[][] = [];
+    const values: Record<string, unknown> = {
+      agentExists: exists,
+      ownerOf: owner,
+      tokenURI: agentURI,
+      getAgentWallet: '0x' + '00'.repeat(20),
+      getMetadata: stringToHex('gpt-4o'),
+      getAgentValidations: [],
+    };
+    const mockPublicClient = {
+      readContract: async ({
+        functionName,
+        args,
+      }: {
+        functionName: string;
+        args: unknown[];
+      }) => {
+        if (functionName === 'getEndpoint') throw new Error('node offline');
+        if (functionName === 'agentExists' && exists instanceof Error) {
+          throw exists;
+        }
+        if (functionName === 'getSummary') {
+          summaries.push(args);
+          return { count: 1n, value: 90n, decimals: 0 };
+        }
+        return values[functionName];
+      },
+      getContractEvents: async () => [
+        {
+          args: { agentId: 42n, client },
+          blockNumber: 1n,
+          blockHash: '0x' + '00'.repeat(32),
+          transactionHash: '0x' + '00'.repeat(32),
+          logIndex: 0,
+        },
+      ],
+    } as never;
+
+    const sdk = new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient
+    );
+    return { sdk, summaries };
+  }
+
+  it('should load each section and report failures per field', async () => {
+    const { sdk, summaries } = createProfileSDK();
+
+    const profile = await sdk.getAgentProfile(42n, {
+      metadataKeys: ['model'],
+      includeRegistration: true,
+    });
+
+    expect(profile.exists).toEqual({ status: 'success', result: true });
+    expect(profile.owner).toEqual({ status: 'success', result: owner });
+    expect(profile.metadata.model).toMatchObject({
+      status: 'success',
+      result: { text: 'gpt-4o' },
+    });
+    expect(profile.endpoint.status).toBe('failure');
+    expect(profile.registration).toEqual({
+      status: 'success',
+      result: registration,
+    });
+    // Reputation covers the clients found in FeedbackGiven logs
+    expect(summaries).toContainEqual([42n, [client], '', '']);
+  });
+
+  it('should fail every section of a missing agent', async () => {
+    const { sdk } = createProfileSDK(false);
+
+    const profile = await sdk.getAgentProfile(7n);
+
+    expect(profile.exists).toEqual({ status: 'success', result: false });
+    expect(profile.owner.status).toBe('failure');
+    if (profile.owner.status === 'failure') {
+      expect(isAgentSDKError(profile.owner.error, 'AgentNotFound')).toBe(true);
+    }
+    expect(profile.registration).toBeUndefined();
+  });
+
+  it('should report a failed existence check and load the rest', async () => {
+    const { sdk } = createProfileSDK(new Error('node offline'));
+
+    const profile = await sdk.getAgentProfile(42n);
+
+    expect(profile.exists.status).toBe('failure');
+    expect(profile.owner).toEqual({ status: 'success', result: owner });
+  });
+});
+
+describe('Registration Files', () => {
+  const agent = {
+    chainId: 43113,
+    identityRegistry: MOCK_ADDRESSES.identityRegistry,
+    agentId: 42n,
+  };
+
+  it('should build a valid file that points back to the agent', () => {
+    const file = new RegistrationFileBuilder('Summarizer', 'Summarizes docs')
+      .addEndpoint('A2A', 'https://agent.example/.well-known/agent-card.json')
+      .addEndpoint('ENS', 'summarizer.eth', 'v1')
+      .addTrust('reputation', 'reputation')
+      .addRegistration(agent)
+      .build();
+
+    expect(file.type).toBe(REGISTRATION_FILE_TYPE);
+    expect(file.supportedTrust).toEqual(['reputation']);
+    expect(file.registrations).toEqual([
+      {
+        agentId: 42,
+        agentRegistry: `eip155:43113:${MOCK_ADDRESSES.identityRegistry}`,
+      },
+    ]);
+    expect(validateRegistrationMatch(file, agent)).toBe(file.registrations[0]);
+  });
+
+  it('should report every issue with its path', () => {
+    const issues = getRegistrationFileIssues({
+      type: REGISTRATION_FILE_TYPE,
+      name: '',
+      description: 'Test agent',
+      endpoints: [{ name: 'MCP', endpoint: 'ftp://agent.example' }],
+      registrations: [{ agentId: -1, agentRegistry: 'eip155:1:0x12' }],
+      supportedTrust: ['vibes'],
+      extra: true,
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      '$.extra',
+      '$.name',
+      '$.endpoints[0].endpoint',
+      '$.registrations[0].agentId',
+      '$.registrations[0].agentRegistry',
+      '$.supportedTrust[0]',
+    ]);
+  });
+
+  it('should accept services in place of endpoints', () => {
+    const file = parseRegistrationFile({
+      type: REGISTRATION_FILE_TYPE,
+      name: 'Agent',
+      description: '',
+      services: [{ name: 'DID', endpoint: 'did:web:agent.example' }],
+      registrations: [],
+    });
+
+    expect(file.endpoints).toEqual([
+      { name: 'DID', endpoint: 'did:web:agent.example' },
+    ]);
+    expect(() => parseRegistrationFile({ name: 'Agent' })).toThrow(
+      RegistrationFileError
+    );
+  });
+
+  it('should reject a file registered to another agent', () => {
+    const file = new RegistrationFileBuilder('Agent', '')
+      .addRegistration(agent)
+      .build();
+
+    try {
+      validateRegistrationMatch(file, { ...agent, agentId: 43n });
+      expect.unreachable();
+    } catch (error) {
+      expect(isAgentSDKError(error, 'InvalidRegistration')).toBe(true);
+      expect((error as RegistrationFileError).issues[0].path).toBe(
+        '$.registrations'
+      );
+    }
+  });
+});
+
+describe('URI Resolution', () => {
+  const hits: Record<string, number> = {};
+  const server = createServer((req, res) => {
+    const path = req.url ?? '/';
+    hits[path] = (hits[path] ?? 0) + 1;
+    if (path.startsWith('/broken/')) {
+      res.writeHead(500).end();
+    } else if (path.startsWith('/redirect/')) {
+      const [, , host, target] = path.split('/');
+      const port = (server.address() as AddressInfo).port;
+      res.writeHead(302, { location: `http://${host}:${port}/${target}` });
+      res.end();
+    } else if (path === '/large') {
+      res.end('x'.repeat(2048));
+    } else if (path === '/slow') {
+      setTimeout(() => res.end('{}'), 500);
+    } else {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ path }));
+    }
+  });
+  let base = '';
+  // The test server is on loopback, which the default resolver refuses
+  const allowHost = (hostname: string) => hostname === '127.0.0.1';
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should share one fetch per URI through the cache', async () => {
+    const resolver = new DefaultUriResolver({ allowHost });
+
+    const [first, second] = await Promise.all([
+      resolver.resolve(`${base}/cached.json`),
+      resolver.resolve(`${base}/cached.json`),
+    ]);
+    const third = await resolver.resolve(`${base}/cached.json`);
+
+    expect(first.json).toEqual({ path: '/cached.json' });
+    expect(first.contentType).toBe('application/json');
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(hits['/cached.json']).toBe(1);
+  });
+
+  it('should fall back to the next ipfs gateway', async () => {
+    const resolver = new DefaultUriResolver({
+      ipfsGateways: [`${base}/broken`, `${base}/`],
+    });
+
+    const document = await resolver.resolve('ipfs://bafyagent/card.json');
+
+    expect(document.source).toBe(`${base}/ipfs/bafyagent/card.json`);
+    expect(document.json).toEqual({ path: '/ipfs/bafyagent/card.json' });
+    expect(hits['/broken/ipfs/bafyagent/card.json']).toBe(1);
+  });
+
+  it('should resolve ar:// and data: URIs', async () => {
+    const resolver = new DefaultUriResolver({ arweaveGateway: base });
+
+    const arweave = await resolver.resolve('ar://tx123');
+    const data = await resolver.resolve('data:text/plain,hello%20agent');
+
+    expect(arweave.source).toBe(`${base}/tx123`);
+    expect(data.contentType).toBe('text/plain');
+    expect(data.text).toBe('hello agent');
+    expect(data.json).toBeUndefined();
+    await expect(resolver.resolve('ftp://agent.example')).rejects.toThrow(
+      'unsupported scheme'
+    );
+  });
+
+  it('should enforce size limits and timeouts', async () => {
+    const resolver = new DefaultUriResolver({
+      allowHost,
+      maxSize: 1024,
+      timeout: 50,
+    });
+
+    const large = resolver.resolve(`${base}/large`);
+    const slow = resolver.resolve(`${base}/slow`);
+
+    await expect(large).rejects.toMatchObject({ code: 'DocumentTooLarge' });
+    await expect(slow).rejects.toMatchObject({ code: 'Timeout' });
+  });
+
+  it('should refuse private hosts, including through redirects', async () => {
+    const resolver = new DefaultUriResolver({ allowHost });
+
+    const redirected = await resolver.resolve(
+      `${base}/redirect/127.0.0.1/hop.json`
+    );
+
+    expect(redirected.json).toEqual({ path: '/hop.json' });
+    await expect(
+      new DefaultUriResolver().resolve(`${base}/x.json`)
+    ).rejects.toThrow('"127.0.0.1" is not allowed');
+    await expect(
+      resolver.resolve(`${base}/redirect/localhost/x.json`)
+    ).rejects.toThrow('"localhost" is not allowed');
+    expect(hits['/x.json']).toBeUndefined();
+  });
+
+  it('should tell public hosts from private ones', () => {
+    expect(isPublicHost('ipfs.io')).toBe(true);
+    expect(isPublicHost('8.8.8.8')).toBe(true);
+    expect(isPublicHost('[2001:db8::1]')).toBe(true);
+    for (const host of [
+      'localhost',
+      'api.localhost',
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '[::1]',
+      '[::ffff:7f00:1]',
+      '[fd00::1]',
+      '[fe80::1]',
+    ]) {
+      expect(isPublicHost(host)).toBe(false);
+    }
+  });
+
+  it('should attach resolved documents to feedback on request', async () => {
+    const feedbackURI = `${base}/feedback.json`;
+    const feedbackHash = hashJsonDocument({ path: '/feedback.json' });
+    const mockPublicClient = {
+      readContract: async () => ({
+        client: '0x5555555555555555555555555555555555555555',
+        value: 90n,
+        valueDecimals: 0,
+        tag1: '',
+        tag2: '',
+        endpoint: '',
+        feedbackURI,
+        feedbackHash,
+        responseURI: '',
+        responseHash: '0x' + '00'.repeat(32),
+        timestamp: 1n,
+        revoked: false,
+      }),
+    } as never;
+    const sdk = new AgentSDK(
+      {
+        chain: createLocalConfig(MOCK_ADDRESSES),
+        uriResolver: new DefaultUriResolver({ allowHost }),
+      },
+      mockPublicClient
+    );
+    const client = '0x5555555555555555555555555555555555555555' as const;
+
+    const plain = await sdk.reputation.readFeedback(1n, client, 0n);
+    const feedback = await sdk.reputation.readFeedback(1n, client, 0n, {
+      resolveDocuments: true,
+    });
+
+    expect(plain.feedbackDocument).toBeUndefined();
+    expect(feedback.feedbackDocument).toMatchObject({
+      status: 'success',
+      result: { uri: feedbackURI, json: { path: '/feedback.json' } },
+    });
+    expect(feedback.feedbackIntegrity).toBe('verified');
+    expect(feedback.responseDocument).toBeUndefined();
+  });
+});
+
+describe('Content Hashes', () => {
+  const bytes = new TextEncoder().encode('{"b": 1, "a": [true, null]}');
+  const json = { b: 1, a: [true, null] };
+
+  it('should serialize JSON canonically', () => {
+    expect(canonicalizeJson({ b: 1, a: { d: 'x', c: undefined } })).toBe(
+      '{"a":{"d":"x"},"b":1}'
+    );
+    expect(hashJsonDocument(json)).toBe(
+      hashJsonDocument({ a: [true, null], b: 1 })
+    );
+    expect(() => canonicalizeJson({ value: 1n })).toThrow(AgentSDKError);
+  });
+
+  it('should verify raw bytes or canonical JSON against the commitment', () => {
+    const document = { bytes, json };
+
+    expect(verifyDocumentHash(document, hashDocument(bytes))).toBe('verified');
+    expect(verifyDocumentHash(document, hashJsonDocument(json))).toBe(
+      'verified'
+    );
+    expect(verifyDocumentHash(document, `0x${'00'.repeat(32)}`)).toBe(
+      'unhashed'
+    );
+    expect(verifyDocumentHash(document, hashDocument('tampered'))).toBe(
+      'mismatch'
+    );
+  });
+
+  it('should fail a validation document that does not match', async () => {
+    const requestURI = 'data:application/json,%7B%22task%22%3A1%7D';
+    const mockPublicClient = {
+      readContract: async () => ({
+        requester: '0x5555555555555555555555555555555555555555',
+        validator: '0x6666666666666666666666666666666666666666',
+        agentId: 1n,
+        requestURI,
+        requestHash: hashJsonDocument({ task: 2 }),
+        response: 0,
+        responseURI: '',
+        responseHash: `0x${'00'.repeat(32)}`,
+        tag: '',
+        timestamp: 1n,
+      }),
+    } as never;
+    const sdk = new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient
+    );
+
+    const request = await sdk.validation.getValidationStatus(
+      hashJsonDocument({ task: 2 }),
+      { resolveDocuments: true }
+    );
+
+    expect(request.requestIntegrity).toBe('mismatch');
+    expect(request.requestDocument?.status).toBe('failure');
+    if (request.requestDocument?.status === 'failure') {
+      const { error } = request.requestDocument;
+      expect(isAgentSDKError(error, 'HashMismatch')).toBe(true);
+    }
+  });
+});
+
+describe('Event Watch', () => {
+  function createWatchSDK() {
+    const watches: Record<string, unknown>[] = [];
+    let unwatched = 0;
+    const mockPublicClient = {
+      watchContractEvent: (params: Record<string, unknown>) => {
+        watches.push(params);
+        return () => {
+          unwatched++;
+        };
+      },
+    } as never;
+    const sdk = new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient
+    );
+    return { sdk, watches, unwatched: () => unwatched };
+  }
+
+  it('should deliver decoded validation requests for one validator', () => {
+    const { sdk, watches, unwatched } = createWatchSDK();
+    const validator = '0x6666666666666666666666666666666666666666' as const;
+    const received: unknown[] = [];
+
+    const unsubscribe = sdk.watch.onValidationRequested(
+      (log) => received.push(log.event),
+      { validator, strategy: 'polling' }
+    );
+    const [watch] = watches as [
+      { args: unknown; poll: boolean; onLogs: (logs: unknown[]) => void },
+    ];
+    const event = {
+      requestHash: '0x' + 'ab'.repeat(32),
+      validator,
+      agentId: 1n,
+      requester: '0x5555555555555555555555555555555555555555',
+    };
+    watch.onLogs([
+      {
+        args: event,
+        blockNumber: 10n,
+        blockHash: '0x' + '01'.repeat(32),
+        transactionHash: '0x' + '02'.repeat(32),
+        logIndex: 0,
+      },
+    ]);
+    unsubscribe();
+
+    expect(watches[0]).toMatchObject({
+      address: MOCK_ADDRESSES.validationRegistry,
+      eventName: 'ValidationRequested',
+      poll: true,
+    });
+    expect(watch.args).toEqual({ validator });
+    expect(received).toEqual([event]);
+    expect(unwatched()).toBe(1);
+  });
+
+  it('should drop unset filters and report subscription errors', () => {
+    const { sdk, watches } = createWatchSDK();
+    const errors: unknown[] = [];
+
+    sdk.watch.onFeedbackGiven(() => {});
+    sdk.watch.onFeedbackRevoked(() => {}, { agentId: 7n });
+    sdk.watch.onAgentWalletSet(() => {}, {
+      onError: (error) => errors.push(error),
+    });
+    (watches[2].onError as (error: Error) => void)(new Error('socket closed'));
+
+    expect(watches.map((watch) => watch.eventName)).toEqual([
+      'FeedbackGiven',
+      'FeedbackRevoked',
+      'AgentWalletSet',
+    ]);
+    expect(watches[0].args).toEqual({});
+    expect(watches[1].args).toEqual({ agentId: 7n });
+    expect(errors[0]).toBeInstanceOf(AgentSDKError);
+  });
+});
+
+describe('Validator Worker', () => {
+  const validator = '0x6666666666666666666666666666666666666666' as const;
+  const txHash = ('0x' + 'ab'.repeat(32)) as `0x${string}`;
+  const hashA = ('0x' + 'a1'.repeat(32)) as `0x${string}`;
+  const hashB = ('0x' + 'b2'.repeat(32)) as `0x${string}`;
+
+  function requestLog(requestHash: `0x${string}`, blockNumber: bigint) {
+    return {
+      args: {
+        requestHash,
+        validator,
+        agentId: 1n,
+        requester: '0x5555555555555555555555555555555555555555',
+      },
+      blockNumber,
+      blockHash: '0x' + '01'.repeat(32),
+      transactionHash: '0x' + '02'.repeat(32),
+      logIndex: 0,
+    };
+  }
+
+  function createWorkerSDK(options: { race?: boolean } = {}) {
+    const calls: string[] = [];
+    const backfill: unknown[] = [];
+    const watches: { onLogs: (logs: unknown[]) => void }[] = [];
+    const mockPublicClient = {
+      readContract: async ({ args }: { args: [`0x${string}`] }) => ({
+        requester: '0x5555555555555555555555555555555555555555',
+        validator,
+        agentId: 1n,
+        requestURI: '',
+        requestHash: args[0],
+        response: 0,
+        responseURI: '',
+        responseHash: '0x' + '00'.repeat(32),
+        tag: '',
+        timestamp: 1n,
+      }),
+      getContractEvents: async (params: { fromBlock: bigint }) => {
+        calls.push(`backfill:${params.fromBlock}`);
+        return backfill;
+      },
+      watchContractEvent: (params: { onLogs: (logs: unknown[]) => void }) => {
+        watches.push(params);
+        return () => calls.push('unwatch');
+      },
+      simulateContract: async ({ args }: { args: [`0x${string}`] }) => {
+        if (options.race) {
+          throw new ContractRevertError('RequestAlreadyResponded', {
+            requestHash: args[0],
+          });
+        }
+        return { result: undefined };
+      },
+      waitForTransactionReceipt: async () => ({
+        blockNumber: 10n,
+        blockHash: '0x' + 'cd'.repeat(32),
+        transactionHash: txHash,
+        status: 'success',
+        logs: [
+          {
+            address: MOCK_ADDRESSES.validationRegistry,
+            topics: encodeEventTopics({
+              abi: AgentValidationRegistryABI,
+              eventName: 'ValidationResponded',
+              args: { requestHash: hashA },
+            }),
+            data: encodeAbiParameters(parseAbiParameters('uint8, string'), [
+              1,
+              'audit',
+            ]),
+          },
+        ],
+      }),
+    } as never;
+    const mockWalletClient = {
+      account: { address: validator },
+      writeContract: async ({ args }: { args: [`0x${string}`] }) => {
+        calls.push(`respond:${args[0]}`);
+        return txHash;
+      },
+    } as never;
+
+    const sdk = new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient,
+      mockWalletClient
+    );
+    return { sdk, calls, backfill, watches };
+  }
+
+  it('should resume from the checkpoint and answer each request once', async () => {
+    const { sdk, calls, backfill, watches } = createWorkerSDK();
+    backfill.push(requestLog(hashA, 5n));
+    const saved: bigint[] = [];
+    const outcomes: unknown[] = [];
+
+    const worker = sdk.createValidatorWorker({
+      validator,
+      evaluate: async () => ({
+        response: ResponseCode.APPROVED,
+        responseDoc: { ok: true },
+        tag: 'audit',
+      }),
+      checkpoint: {
+        load: async () => 4n,
+        save: async (block) => {
+          saved.push(block);
+        },
+      },
+      log: () => {},
+      onResponded: (outcome) => outcomes.push(outcome),
+    });
+    await worker.start();
+    watches[0].onLogs([requestLog(hashA, 5n), requestLog(hashB, 6n)]);
+    await worker.idle();
+    worker.stop();
+
+    expect(calls).toEqual([
+      'backfill:4',
+      `respond:${hashA}`,
+      `respond:${hashB}`,
+      'unwatch',
+    ]);
+    expect(saved).toEqual([5n, 6n]);
+    expect(outcomes[0]).toMatchObject({
+      requestHash: hashA,
+      responseHash: hashJsonDocument({ ok: true }),
+      tag: 'audit',
+      transactionHash: txHash,
+    });
+  });
+
+  it('should checkpoint past a request that fails permanently', async () => {
+    const { sdk, calls, watches } = createWorkerSDK();
+    const saved: bigint[] = [];
+    const failed: unknown[] = [];
+
+    const worker = sdk.createValidatorWorker({
+      validator,
+      evaluate: async (request) => ({
+        response:
+          request.requestHash === hashA
+            ? ResponseCode.PENDING
+            : ResponseCode.APPROVED,
+      }),
+      checkpoint: {
+        load: async () => null,
+        save: async (block) => {
+          saved.push(block);
+        },
+      },
+      onError: (_, requestHash) => failed.push(requestHash),
+    });
+    await worker.start();
+    watches[0].onLogs([requestLog(hashA, 5n), requestLog(hashB, 6n)]);
+    await worker.idle();
+
+    expect(failed).toEqual([hashA]);
+    expect(calls).toEqual([`respond:${hashB}`]);
+    expect(saved).toEqual([5n, 6n]);
+  });
+
+  it('should hold the checkpoint at a retryable failure', async () => {
+    const { sdk, calls, watches } = createWorkerSDK();
+    const saved: bigint[] = [];
+    const failed: unknown[] = [];
+
+    const worker = sdk.createValidatorWorker({
+      validator,
+      maxAttempts: 1,
+      evaluate: async (request) => {
+        if (request.requestHash === hashA) throw new Error('fetch failed');
+        return { response: ResponseCode.APPROVED };
+      },
+      checkpoint: {
+        load: async () => null,
+        save: async (block) => {
+          saved.push(block);
+        },
+      },
+      onError: (_, requestHash) => failed.push(requestHash),
+    });
+    await worker.start();
+    watches[0].onLogs([requestLog(hashA, 5n), requestLog(hashB, 6n)]);
+    await worker.idle();
+
+    expect(failed).toEqual([hashA]);
+    expect(calls).toEqual([`respond:${hashB}`]);
+    expect(saved).toEqual([5n]);
+  });
+
+  it('should treat a lost RequestAlreadyResponded race as done', async () => {
+    const { sdk, calls, watches } = createWorkerSDK({ race: true });
+    const lines: string[] = [];
+    const errors: unknown[] = [];
+
+    const worker = sdk.createValidatorWorker({
+      validator,
+      evaluate: async () => ({ response: ResponseCode.REJECTED }),
+      log: (line) => lines.push(line),
+      onError: (error) => errors.push(error),
+    });
+    await worker.start();
+    watches[0].onLogs([requestLog(hashA, 5n)]);
+    await worker.idle();
+
+    expect(calls).toEqual([]);
+    expect(errors).toEqual([]);
+    expect(lines[0]).toContain('answered by another transaction');
+  });
+
+  it('should retry failed evaluations and only log in dry-run mode', async () => {
+    const { sdk, calls, watches } = createWorkerSDK();
+    const lines: string[] = [];
+    const outcomes: { transactionHash: unknown }[] = [];
+    let attempts = 0;
+
+    const worker = sdk.createValidatorWorker({
+      validator,
+      dryRun: true,
+      retryDelay: 0,
+      evaluate: async () => {
+        if (++attempts === 1) throw new Error('model unavailable');
+        return { response: ResponseCode.APPROVED };
+      },
+      log: (line) => lines.push(line),
+      onResponded: (outcome) => outcomes.push(outcome),
+    });
+    await worker.start();
+    watches[0].onLogs([requestLog(hashB, 6n)]);
+    await worker.idle();
+
+    expect(attempts).toBe(2);
+    expect(calls).toEqual([]);
+    expect(outcomes).toEqual([
+      expect.objectContaining({ transactionHash: null }),
+    ]);
+    expect(lines[1]).toContain('[dry run] Would respond 1');
+  });
+
+  it('should log to the console in dry-run mode by default', async () => {
+    const { sdk, watches } = createWorkerSDK();
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+    try {
+      const worker = sdk.createValidatorWorker({
+        validator,
+        dryRun: true,
+        evaluate: async () => ({ response: ResponseCode.APPROVED }),
+      });
+      await worker.start();
+      watches[0].onLogs([requestLog(hashB, 6n)]);
+      await worker.idle();
+
+      expect(info).toHaveBeenCalledWith(
+        expect.stringContaining('[dry run] Would respond 1')
+      );
+    } finally {
+      info.mockRestore();
+    }
+  });
+});
+
+describe('Validation Request Builder', () => {
+  const validator = '0x6666666666666666666666666666666666666666' as const;
+
+  function createBuilderSDK(existing: Set<string>) {
+    const mockPublicClient = {
+      readContract: async ({ args }: { args: [`0x${string}`] }) => {
+        if (!existing.has(args[0])) {
+          throw new ContractRevertError('RequestNotFound', {
+            requestHash: args[0],
+          });
+        }
+        return {};
+      },
+    } as never;
+    return new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient
+    );
+  }
+
+  it('should hash a canonical document that verifies on read', async () => {
+    const sdk = createBuilderSDK(new Set());
+
+    const built = await sdk.validation.buildValidationRequest({
+      agentId: 42n,
+      validator,
+      payload: { task: 'audit', scope: ['a', 'b'] },
+      nonce: 7n,
+    });
+    const again = await sdk.validation.buildValidationRequest({
+      agentId: 42n,
+      validator,
+      payload: { scope: ['a', 'b'], task: 'audit' },
+      nonce: 7n,
+    });
+    const document = await new DefaultUriResolver().resolve(
+      built.params.requestURI
+    );
+
+    expect(built.document).toMatchObject({ agentId: '42', nonce: '7' });
+    expect(again.requestHash).toBe(built.requestHash);
+    expect(built.params).toMatchObject({
+      agentId: 42n,
+      validator,
+      requestHash: built.requestHash,
+    });
+    expect(verifyDocumentHash(document, built.requestHash)).toBe('verified');
+  });
+
+  it('should never return a hash already on-chain', async () => {
+    const existing = new Set<string>();
+    const sdk = createBuilderSDK(existing);
+    const params = { agentId: 1n, validator, payload: null, nonce: 1n };
+    const taken = await sdk.validation.buildValidationRequest(params);
+    existing.add(taken.requestHash);
+
+    const error = await sdk.validation
+      .buildValidationRequest(params)
+      .catch((e: unknown) => e);
+    const fresh = await sdk.validation.buildValidationRequest({
+      ...params,
+      nonce: undefined,
+    });
+
+    expect(isAgentSDKError(error, 'RequestAlreadyExists')).toBe(true);
+    expect(fresh.requestHash).not.toBe(taken.requestHash);
+  });
+});
+
+describe('Validation Lifecycle', () => {
+  const validatorA = '0x7777777777777777777777777777777777777777' as const;
+  const validatorB = '0x8888888888888888888888888888888888888888' as const;
+  const requests = [
+    { validator: validatorA, response: 1, tag: 'audit', timestamp: 5_000n },
+    { validator: validatorA, response: 0, tag: '', timestamp: 1_000n },
+    { validator: validatorB, response: 0, tag: '', timestamp: 9_000n },
+    { validator: validatorB, response: 3, tag: 'audit', timestamp: 2_000n },
+  ].map((request, i) => ({
+    requester: validatorB,
+    agentId: 42n,
+    requestURI: '',
+    requestHash: numberToHex(i + 1, { size: 32 }),
+    responseURI: '',
+    responseHash: numberToHex(0, { size: 32 }),
+    ...request,
+  }));
+
+  function createLifecycleSDK() {
+    const mockPublicClient = {
+      readContract: async () => requests.map((r) => r.requestHash),
+      getBlock: async () => ({ timestamp: 10_000n }),
+      multicall: async ({ contracts }: { contracts: { args: [string] }[] }) =>
+        contracts.map(({ args: [requestHash] }) => ({
+          status: 'success',
+          result: requests.find((r) => r.requestHash === requestHash),
+        })),
+    } as never;
+    return new AgentSDK(
+      { chain: createLocalConfig(MOCK_ADDRESSES) },
+      mockPublicClient
+    );
+  }
+
+  it('should derive status, age and staleness, oldest first', async () => {
+    const sdk = createLifecycleSDK();
+
+    const entries = await sdk.validation.listRequests(42n, {
+      staleAfter: 5_000n,
+    });
+
+    expect(
+      entries.map(({ status, age, stale }) => ({ status, age, stale }))
+    ).toEqual([
+      { status: 'pending', age: 9_000n, stale: true },
+      { status: 'inconclusive', age: 8_000n, stale: false },
+      { status: 'approved', age: 5_000n, stale: false },
+      { status: 'pending', age: 1_000n, stale: false },
+    ]);
+  });
+
+  it('should filter by status, validator, tag and age', async () => {
+    const sdk = createLifecycleSDK();
+
+    const stuck = await sdk.validation.listRequests(42n, {
+      status: 'pending',
+      olderThan: 3_600n,
+    });
+    const answered = await sdk.validation.listRequests(42n, {
+      status: ['approved', 'rejected', 'inconclusive'],
+      validator: validatorB,
+      tag: 'audit',
+      now: 2_000n,
+    });
+
+    expect(stuck.map((entry) => entry.requestHash)).toEqual([
+      requests[1].requestHash,
+    ]);
+    expect(answered).toHaveLength(1);
+    expect(answered[0]).toMatchObject({ status: 'inconclusive', age: 0n });
+  });
+});
+
+describe('Reputation Scoring', () => {
+  const client = '0x9999999999999999999999999999999999999999' as const;
+
+  function feedback(
+    value: bigint,
+    overrides: Partial<{
+      valueDecimals: number;
+      tag1: string;
+      timestamp: bigint;
+      revoked: boolean;
+    }> = {}
+  ) {
+    return {
+      client,
+      value,
+      valueDecimals: 0,
+      tag1: 'quality',
+      tag2: '',
+      endpoint: '',
+      feedbackURI: '',
+      feedbackHash: numberToHex(0, { size: 32 }),
+      responseURI: '',
+      responseHash: numberToHex(0, { size: 32 }),
+      timestamp: 1_000n,
+      revoked: false,
+      ...overrides,
+    };
+  }
+
+  it('should exclude revoked entries and normalize decimals by default', () => {
+    const result = new ReputationScorer().score([
+      feedback(80n),
+      feedback(9000n, { valueDecimals: 2 }),
+      feedback(0n, { revoked: true }),
+    ]);
+
+    expect(result.score).toBe(85);
+    expect(result.count).toBe(2);
+    expect(result.explanation).toEqual([
+      { strategy: 'excludeRevoked', detail: 'dropped 1 revoked' },
+      { strategy: 'normalizeDecimals', detail: 'rescaled 1 values' },
+    ]);
+  });
+
+  it('should decay, trim, smooth and break down by tag', () => {
+    const scorer = new ReputationScorer({
+      strategies: [
+        trimOutliers({ fraction: 0.25 }),
+        timeDecay({ halfLife: 1_000n }),
+        bayesianSmoothing({ mean: 50, weight: 1 }),
+      ],
+      breakdownBy: 'tag1',
+      now: 2_000n,
+    });
+
+    const result = scorer.score([
+      feedback(0n),
+      feedback(100n, { timestamp: 2_000n }),
+      feedback(40n),
+      feedback(1_000n, { tag1: 'speed' }),
+    ]);
+
+    // 0 and 1000 are trimmed; 100 at full weight, 40 at half, prior 50 at 1
+    expect(result.count).toBe(2);
+    expect(result.totalWeight).toBe(2.5);
+    expect(result.score).toBe((100 + 20 + 50) / 2.5);
+    expect(result.explanation.map((step) => step.strategy)).toEqual([
+      'trimOutliers',
+      'timeDecay',
+      'bayesianSmoothing',
+    ]);
+    expect(result.breakdown!.speed.score).toBe((500 + 50) / 1.5);
+    expect(result.breakdown!.quality.count).toBe(3);
+  });
+
+  it('should reject invalid strategy options', () => {
+    expect(() => timeDecay({ halfLife: 0n })).toThrow('halfLife');
+    expect(() => trimOutliers({ fraction: 0.5 })).toThrow('fraction');
+    expect(() => bayesianSmoothing({ mean: 50, weight: 0 })).toThrow(
+      'weight'
+    );
+    expect(excludeRevoked().name).toBe('excludeRevoked');
+    expect(normalizeDecimals().name).toBe('normalizeDecimals');
   });
 });
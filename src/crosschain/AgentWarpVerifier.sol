@@ -72,6 +72,13 @@ contract AgentWarpVerifier {
         bool verified;
     }
 
+    /// @dev Layout of the precompile's `WarpMessage` (IWarpMessenger)
+    struct WarpMessage {
+        bytes32 sourceChainID;
+        address originSenderAddress;
+        bytes payload;
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════
     // EVENTS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -272,21 +279,16 @@ contract AgentWarpVerifier {
         );
         require(success, "Warp: call failed");
 
-        (
-            bytes32 sourceChainID,
-            address originSenderAddress,
-            bytes memory payload,
-            bool valid
-        ) = abi.decode(result, (bytes32, address, bytes, bool));
+        (WarpMessage memory message, bool valid) = abi.decode(result, (WarpMessage, bool));
 
         if (!valid) revert InvalidWarpMessage();
-        if (sourceChainID != homeChainId) {
-            revert WrongSourceChain(homeChainId, sourceChainID);
+        if (message.sourceChainID != homeChainId) {
+            revert WrongSourceChain(homeChainId, message.sourceChainID);
         }
-        if (originSenderAddress != homeEmitter) {
-            revert WrongEmitter(homeEmitter, originSenderAddress);
+        if (message.originSenderAddress != homeEmitter) {
+            revert WrongEmitter(homeEmitter, message.originSenderAddress);
         }
 
-        return payload;
+        return message.payload;
     }
 }
@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+/// @title MockWarpMessenger
+/// @notice Mock of the Warp precompile for local chains without Warp support
+/// @dev Install at 0x0200000000000000000000000000000000000005 with `vm.etch`
+///      (Foundry) or `anvil_setCode` (Anvil). Nothing set in a constructor
+///      survives etching, so all configuration goes through setters.
+///
+///      Sent messages use the Avalanche codec layout of an unsigned Warp
+///      message wrapping an AddressedCall, so off-chain tooling can treat the
+///      SendWarpMessage logs exactly like those from a real L1.
+contract MockWarpMessenger {
+    /// @dev Same layout as IWarpMessenger.WarpMessage
+    struct WarpMessage {
+        bytes32 sourceChainID;
+        address originSenderAddress;
+        bytes payload;
+    }
+
+    bytes32 public blockchainID;
+    uint32 public networkID;
+
+    mapping(uint32 index => WarpMessage) private _verifiedMessages;
+    mapping(uint32 index => bool) private _valid;
+
+    event SendWarpMessage(address indexed sender, bytes32 indexed messageID, bytes message);
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // TEST SETUP
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    function setBlockchainID(bytes32 _blockchainID) external {
+        blockchainID = _blockchainID;
+    }
+
+    function setNetworkID(uint32 _networkID) external {
+        networkID = _networkID;
+    }
+
+    /// @notice Stand in for a predicate the VM verified at `index`
+    function setVerifiedMessage(
+        uint32 index,
+        bytes32 sourceChainID,
+        address originSenderAddress,
+        bytes calldata payload
+    ) external {
+        _verifiedMessages[index] = WarpMessage({
+            sourceChainID: sourceChainID,
+            originSenderAddress: originSenderAddress,
+            payload: payload
+        });
+        _valid[index] = true;
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // PRECOMPILE INTERFACE
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    function getBlockchainID() external view returns (bytes32) {
+        return blockchainID;
+    }
+
+    /// @dev Returns `(WarpMessage, bool)` like the real precompile; an unset
+    ///      index gives an empty message and `valid = false`
+    function getVerifiedWarpMessage(
+        uint32 index
+    ) external view returns (WarpMessage memory message, bool valid) {
+        return (_verifiedMessages[index], _valid[index]);
+    }
+
+    function sendWarpMessage(bytes calldata payload) external returns (bytes32 messageID) {
+        bytes memory addressedCall = abi.encodePacked(
+            uint16(0), // codec version
+            uint32(1), // AddressedCall type ID
+            uint32(20),
+            msg.sender,
+            uint32(payload.length),
+            payload
+        );
+        bytes memory message = abi.encodePacked(
+            uint16(0), // codec version
+            networkID,
+            blockchainID,
+            uint32(addressedCall.length),
+            addressedCall
+        );
+
+        messageID = sha256(message);
+        emit SendWarpMessage(msg.sender, messageID, message);
+    }
+}
@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import {Test} from "forge-std/Test.sol";
+import {AgentWarpVerifier} from "../../src/crosschain/AgentWarpVerifier.sol";
+import {MockWarpMessenger} from "../mocks/MockWarpMessenger.sol";
+
+contract AgentWarpVerifierTest is Test {
+    address constant WARP_PRECOMPILE = 0x0200000000000000000000000000000000000005;
+
+    bytes32 constant HOME_CHAIN_ID = bytes32(uint256(2));
+    address public homeEmitter = makeAddr("homeEmitter");
+    address public alice = makeAddr("alice");
+
+    AgentWarpVerifier public verifier;
+    MockWarpMessenger public warp;
+
+    function setUp() public {
+        vm.etch(WARP_PRECOMPILE, address(new MockWarpMessenger()).code);
+        warp = MockWarpMessenger(WARP_PRECOMPILE);
+        verifier = new AgentWarpVerifier(HOME_CHAIN_ID, homeEmitter);
+    }
+
+    function _identityPayload(uint8 schema, uint8 proofType) internal view returns (bytes memory) {
+        return abi.encode(schema, proofType, uint256(1), alice, "https://agent.example", block.timestamp);
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // VERIFICATION TESTS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    function test_VerifyIdentityCachesProof() public {
+        warp.setVerifiedMessage(0, HOME_CHAIN_ID, homeEmitter, _identityPayload(1, 1));
+
+        uint256 agentId = verifier.verifyIdentity(0);
+
+        assertEq(agentId, 1);
+        assertTrue(verifier.isVerified(1));
+        assertEq(verifier.verifiedOwnerOf(1), alice);
+        assertEq(verifier.verifiedEndpoint(1), "https://agent.example");
+    }
+
+    function test_RevertWhen_VerifyFromWrongChain() public {
+        bytes32 otherChain = bytes32(uint256(3));
+        warp.setVerifiedMessage(0, otherChain, homeEmitter, _identityPayload(1, 1));
+
+        vm.expectRevert(
+            abi.encodeWithSelector(AgentWarpVerifier.WrongSourceChain.selector, HOME_CHAIN_ID, otherChain)
+        );
+        verifier.verifyIdentity(0);
+    }
+
+    function test_RevertWhen_VerifyWithWrongProofType() public {
+        warp.setVerifiedMessage(0, HOME_CHAIN_ID, homeEmitter, _identityPayload(1, 1));
+
+        vm.expectRevert(abi.encodeWithSelector(AgentWarpVerifier.UnexpectedProofType.selector, 2, 1));
+        verifier.verifyReputation(0);
+    }
+
+    function test_RevertWhen_NoVerifiedMessageAtIndex() public {
+        vm.expectRevert(AgentWarpVerifier.InvalidWarpMessage.selector);
+        verifier.verifyIdentity(1);
+    }
+}